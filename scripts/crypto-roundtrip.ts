@@ -0,0 +1,288 @@
+import "fake-indexeddb/auto";
+import assert from "node:assert/strict";
+import {
+  generateKeyPair, exportPublicKey, importPublicKey, exportPrivateKey, importPrivateKey, derivePublicKey,
+  encryptMessage, decryptMessage, generateAESKey, exportKey, importAESKey, encryptWithAES, decryptWithAES,
+  encryptAESKeyForUser, decryptAESKeyWithUserPrivateKey, encryptBlob, decryptToBlob, deriveKey,
+  encryptPrivateKeyBackup, decryptPrivateKeyBackup, bufferToBase64, base64ToBuffer, hashData
+} from "../src/lib/crypto";
+import { decodeEnvelope, encodeEnvelope, rewrapEnvelope, MalformedEnvelopeError, UnsupportedEnvelopeVersionError } from "../src/lib/envelope";
+import { generateDHKeyPair, initiateSession, acceptSession, ratchetEncrypt, ratchetDecrypt, type PrekeyHeader } from "../src/lib/ratchet";
+import { openMessageKeys } from "../src/lib/messageKeys";
+
+// Round-trips every primitive the message envelope depends on.
+// Run with: npm run test:crypto
+
+const checks: [string, () => Promise<void>][] = [];
+const check = (name: string, fn: () => Promise<void>) => checks.push([name, fn]);
+
+const text = (value: string) => new Uint8Array(new TextEncoder().encode(value));
+const untext = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+/** Alice opens a session from Bob"s published prekeys; Bob accepts it from the header of her first message. */
+async function openSessionPair() {
+  const aliceIdentity = await generateDHKeyPair();
+  const bobIdentity = await generateDHKeyPair();
+  const signedPrekey = await generateDHKeyPair();
+  const oneTimePrekey = await generateDHKeyPair();
+  const alice = await initiateSession(aliceIdentity, {
+    identity_key: bobIdentity.pub,
+    signed_prekey: signedPrekey.pub,
+    signed_prekey_id: "spk-1",
+    one_time_prekey: { id: "opk-1", public_key: oneTimePrekey.pub },
+  });
+  const accept = (prekey: PrekeyHeader) => acceptSession(bobIdentity, signedPrekey, oneTimePrekey, prekey);
+  return { alice, accept };
+}
+
+check("base64 survives every byte value", async () => {
+  const bytes = new Uint8Array(256).map((_, i) => i);
+  assert.deepEqual(base64ToBuffer(bufferToBase64(bytes.buffer)), bytes);
+});
+
+check("RSA-OAEP keys export, import and decrypt", async () => {
+  const pair = await generateKeyPair();
+  const publicKey = await importPublicKey(await exportPublicKey(pair.publicKey));
+  const privateKey = await importPrivateKey(await exportPrivateKey(pair.privateKey));
+  assert.equal(await decryptMessage(await encryptMessage("hello", publicKey), privateKey), "hello");
+
+  const derived = await derivePublicKey(privateKey);
+  assert.equal(await exportPublicKey(derived), await exportPublicKey(pair.publicKey));
+});
+
+check("AES-GCM text round-trips and rejects tampering", async () => {
+  const key = await importAESKey(await exportKey(await generateAESKey()));
+  const text = "emoji 🔐 and unicode ü";
+  const { content, iv } = await encryptWithAES(text, key);
+  assert.equal(await decryptWithAES(content, iv, key), text);
+
+  const tampered = base64ToBuffer(content);
+  tampered[0] ^= 1;
+  await assert.rejects(decryptWithAES(bufferToBase64(tampered.buffer), iv, key));
+});
+
+check("blob encryption round-trips", async () => {
+  const key = await generateAESKey();
+  const payload = new Uint8Array(64 * 1024).map((_, i) => i % 251);
+  const { encryptedBlob, iv } = await encryptBlob(new Blob([payload]), key);
+  const blob = await decryptToBlob(await encryptedBlob.arrayBuffer(), iv, key, "application/octet-stream");
+  assert.deepEqual(new Uint8Array(await blob.arrayBuffer()), payload);
+});
+
+check("AES keys wrap and unwrap under RSA", async () => {
+  const pair = await generateKeyPair();
+  const aesKey = await generateAESKey();
+  const unwrapped = await decryptAESKeyWithUserPrivateKey(await encryptAESKeyForUser(aesKey, pair.publicKey), pair.privateKey);
+  assert.equal(await exportKey(unwrapped), await exportKey(aesKey));
+});
+
+check("deriveKey is deterministic per password and salt", async () => {
+  const salt = new Uint8Array(16).fill(7);
+  const a = await exportKey(await deriveKey("correct horse", salt));
+  assert.equal(await exportKey(await deriveKey("correct horse", salt)), a);
+  assert.notEqual(await exportKey(await deriveKey("wrong horse", salt)), a);
+  assert.notEqual(await exportKey(await deriveKey("correct horse", new Uint8Array(16))), a);
+});
+
+check("private key backups restore only with the right passphrase", async () => {
+  const pair = await generateKeyPair();
+  const privateKeyBase64 = await exportPrivateKey(pair.privateKey);
+  const backup = await encryptPrivateKeyBackup(privateKeyBase64, "long passphrase");
+  assert.equal(await decryptPrivateKeyBackup(backup, "long passphrase"), privateKeyBase64);
+  await assert.rejects(decryptPrivateKeyBackup(backup, "other passphrase"));
+});
+
+check("hashData is stable", async () => {
+  assert.equal(await hashData("chatify"), await hashData("chatify"));
+});
+
+check("v1 envelopes round-trip through the codec and open", async () => {
+  const pair = await generateKeyPair();
+  const aesKey = await generateAESKey();
+  const { content, iv } = await encryptWithAES("legacy message", aesKey);
+  const encoded = encodeEnvelope({ v: 1, iv, content, keys: { me: await encryptAESKeyForUser(aesKey, pair.publicKey) } });
+
+  const envelope = decodeEnvelope(encoded);
+  assert.equal(envelope.v, 1);
+  if (envelope.v !== 1) return;
+  const key = await decryptAESKeyWithUserPrivateKey(envelope.keys.me, pair.privateKey);
+  assert.equal(await decryptWithAES(envelope.content, envelope.iv, key), "legacy message");
+
+  const { v, ...unversioned } = envelope;
+  assert.equal(decodeEnvelope(JSON.stringify(unversioned)).v, 1);
+});
+
+check("v2 envelopes round-trip through the codec and open for sessions and device keys", async () => {
+  const { alice, accept } = await openSessionPair();
+  const laptop = await generateKeyPair();
+  const aesKey = await generateAESKey();
+  const { content, iv } = await encryptWithAES("current message", aesKey);
+  const entry = await ratchetEncrypt(alice, base64ToBuffer(await exportKey(aesKey)));
+  const encoded = encodeEnvelope({
+    v: 2,
+    sender_device: "alice-phone",
+    iv,
+    content,
+    sessions: { "bob-phone": { header: entry.header, iv: entry.iv, key: entry.ciphertext } },
+    device_keys: { "bob-laptop": await encryptAESKeyForUser(aesKey, laptop.publicKey) },
+  });
+
+  const envelope = decodeEnvelope(encoded);
+  assert.equal(envelope.v, 2);
+  if (envelope.v !== 2) return;
+  assert.equal(envelope.sender_device, "alice-phone");
+
+  const phoneEntry = envelope.sessions["bob-phone"];
+  const session = await accept(phoneEntry.header.prekey!);
+  const opened = await ratchetDecrypt(session, phoneEntry.header, phoneEntry.iv, phoneEntry.key);
+  const phoneKey = await importAESKey(bufferToBase64(opened.plaintext.buffer));
+  assert.equal(await decryptWithAES(envelope.content, envelope.iv, phoneKey), "current message");
+
+  const laptopKey = await decryptAESKeyWithUserPrivateKey(envelope.device_keys["bob-laptop"], laptop.privateKey);
+  assert.equal(await decryptWithAES(envelope.content, envelope.iv, laptopKey), "current message");
+
+  const { sender_device, ...unsigned } = envelope;
+  assert.throws(() => decodeEnvelope(JSON.stringify(unsigned)), MalformedEnvelopeError);
+});
+
+check("ratchet sessions carry messages both ways and drop the prekey header once answered", async () => {
+  const { alice, accept } = await openSessionPair();
+
+  const first = await ratchetEncrypt(alice, text("hi bob"));
+  assert.ok(first.header.prekey);
+  const bobOpened = await ratchetDecrypt(await accept(first.header.prekey!), first.header, first.iv, first.ciphertext);
+  assert.equal(untext(bobOpened.plaintext), "hi bob");
+
+  // Bob's reply steps the DH ratchet, so it arrives under a new ratchet key.
+  const reply = await ratchetEncrypt(bobOpened.state, text("hi alice"));
+  assert.notEqual(reply.header.dh, first.header.dh);
+  assert.equal(reply.header.prekey, undefined);
+  const aliceOpened = await ratchetDecrypt(first.state, reply.header, reply.iv, reply.ciphertext);
+  assert.equal(untext(aliceOpened.plaintext), "hi alice");
+
+  const next = await ratchetEncrypt(aliceOpened.state, text("how are you"));
+  assert.equal(next.header.prekey, undefined);
+  assert.notEqual(next.header.dh, first.header.dh);
+  assert.equal(untext((await ratchetDecrypt(reply.state, next.header, next.iv, next.ciphertext)).plaintext), "how are you");
+});
+
+check("ratchet opens out-of-order messages from skipped keys, once each", async () => {
+  const { alice, accept } = await openSessionPair();
+  const sent = [];
+  let sender = alice;
+  for (const body of ["m0", "m1", "m2", "m3"]) {
+    const message = await ratchetEncrypt(sender, text(body));
+    sent.push(message);
+    sender = message.state;
+  }
+  const [m0, m1, m2, m3] = sent;
+
+  let bob = await accept(m2.header.prekey!);
+  const open = async (message: typeof m0) => {
+    const opened = await ratchetDecrypt(bob, message.header, message.iv, message.ciphertext);
+    bob = opened.state;
+    return untext(opened.plaintext);
+  };
+
+  assert.equal(await open(m2), "m2");
+  assert.equal(Object.keys(bob.skipped).length, 2);
+  assert.equal(await open(m0), "m0");
+  await assert.rejects(ratchetDecrypt(bob, m0.header, m0.iv, m0.ciphertext));
+
+  // Bob replies, and Alice's next message starts a new chain while m1 and m3 are still in flight.
+  const reply = await ratchetEncrypt(bob, text("r0"));
+  bob = reply.state;
+  const aliceOpened = await ratchetDecrypt(sender, reply.header, reply.iv, reply.ciphertext);
+  const n0 = await ratchetEncrypt(aliceOpened.state, text("n0"));
+  assert.equal(n0.header.pn, 4);
+
+  assert.equal(await open(n0), "n0");
+  assert.equal(await open(m3), "m3");
+  assert.equal(await open(m1), "m1");
+  assert.deepEqual(bob.skipped, {});
+});
+
+check("ratchet rejects tampered messages without advancing the session", async () => {
+  const { alice, accept } = await openSessionPair();
+  const message = await ratchetEncrypt(alice, text("untouched"));
+  const bob = await accept(message.header.prekey!);
+
+  const ciphertext = base64ToBuffer(message.ciphertext);
+  ciphertext[0] ^= 1;
+  await assert.rejects(ratchetDecrypt(bob, message.header, message.iv, bufferToBase64(ciphertext.buffer)));
+  // The header is authenticated too, so a message cannot be moved to another position.
+  await assert.rejects(ratchetDecrypt(bob, { ...message.header, pn: 1 }, message.iv, message.ciphertext));
+  await assert.rejects(ratchetDecrypt(bob, { ...message.header, n: 100_000 }, message.iv, message.ciphertext));
+
+  assert.equal(bob.recvN, 0);
+  const opened = await ratchetDecrypt(bob, message.header, message.iv, message.ciphertext);
+  assert.equal(untext(opened.plaintext), "untouched");
+});
+
+check("v2 messages still open after the account key rotates", async () => {
+  const { alice, accept } = await openSessionPair();
+  const bobOld = await generateKeyPair();
+  const aesKey = await generateAESKey();
+  const { content, iv } = await encryptWithAES("sent before rotation", aesKey);
+
+  // Bob"s phone publishes prekeys and gets a ratchet entry; his laptop only has RSA.
+  const entry = await ratchetEncrypt(alice, base64ToBuffer(await exportKey(aesKey)));
+  const envelope = decodeEnvelope(encodeEnvelope({
+    v: 2,
+    sender_device: "alice-phone",
+    iv,
+    content,
+    sessions: { "bob-phone": { header: entry.header, iv: entry.iv, key: entry.ciphertext } },
+    device_keys: { "bob-laptop": await encryptAESKeyForUser(aesKey, bobOld.publicKey) },
+  }));
+  assert.equal(envelope.v, 2);
+  if (envelope.v !== 2) return;
+
+  // The phone opens the message once and remembers its key, as Chat does.
+  const phoneEntry = envelope.sessions["bob-phone"];
+  const session = await accept(phoneEntry.header.prekey!);
+  const opened = await ratchetDecrypt(session, phoneEntry.header, phoneEntry.iv, phoneEntry.key);
+  const keys = await openMessageKeys("bob");
+  await keys.put({ id: "message-1", contact_id: "alice", created_at: new Date().toISOString() }, bufferToBase64(opened.plaintext.buffer));
+
+  const bobNew = await generateKeyPair();
+  const rotated = await rewrapEnvelope(envelope, "bob", "bob-laptop", bobOld.privateKey, bobNew.publicKey);
+  assert.ok(rotated && rotated.v === 2);
+  if (!rotated || rotated.v !== 2) return;
+  assert.deepEqual(rotated.sessions, envelope.sessions);
+
+  // The laptop opens it under the new key pair only.
+  const laptopKey = await decryptAESKeyWithUserPrivateKey(rotated.device_keys["bob-laptop"], bobNew.privateKey);
+  assert.equal(await decryptWithAES(rotated.content, rotated.iv, laptopKey), "sent before rotation");
+  await assert.rejects(decryptAESKeyWithUserPrivateKey(rotated.device_keys["bob-laptop"], bobOld.privateKey));
+
+  // The ratchet key is spent, so the phone relies on the remembered key, which rotation leaves alone.
+  await assert.rejects(ratchetDecrypt(opened.state, phoneEntry.header, phoneEntry.iv, phoneEntry.key));
+  const remembered = await (await openMessageKeys("bob")).get("message-1");
+  assert.ok(remembered);
+  assert.equal(await decryptWithAES(rotated.content, rotated.iv, remembered!), "sent before rotation");
+});
+
+check("codec rejects malformed and unknown envelopes", async () => {
+  assert.throws(() => decodeEnvelope("not json"), MalformedEnvelopeError);
+  assert.throws(() => decodeEnvelope(JSON.stringify({ v: 1, iv: "a" })), MalformedEnvelopeError);
+  assert.throws(() => decodeEnvelope(JSON.stringify({ v: 99 })), UnsupportedEnvelopeVersionError);
+});
+
+async function main() {
+  let failed = 0;
+  for (const [name, fn] of checks) {
+    try {
+      await fn();
+      console.log(`ok   ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`FAIL ${name}`);
+      console.error(error);
+    }
+  }
+  console.log(`${checks.length - failed}/${checks.length} passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
@@ -30,6 +30,18 @@ export async function POST() {
       return NextResponse.json({ message: "No messages to delete", deleted: 0 });
     }
 
+    // Reactions, earlier versions, tombstones and live positions only make sense alongside the message, so they go with it.
+    for (const table of ["message_reactions", "message_edits", "message_tombstones", "live_locations"]) {
+      const { error: dependentError } = await supabaseAdmin
+        .from(table)
+        .delete()
+        .in("message_id", uniqueIds);
+
+      if (dependentError) {
+        return NextResponse.json({ error: dependentError.message }, { status: 500 });
+      }
+    }
+
     const { error: deleteError, count } = await supabaseAdmin
       .from("messages")
       .delete()
@@ -14,11 +14,32 @@ export async function POST(req: Request) {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
+    const conversation = `and(sender_id.eq.${userId},receiver_id.eq.${contactId}),and(sender_id.eq.${contactId},receiver_id.eq.${userId})`;
+
+    const { data: messages, error: fetchError } = await supabaseAdmin
+      .from('messages')
+      .select('id')
+      .or(conversation);
+
+    if (fetchError) throw fetchError;
+
+    const messageIds = messages?.map(m => m.id) || [];
+    if (messageIds.length > 0) {
+      for (const table of ['message_reactions', 'message_edits', 'message_tombstones', 'live_locations']) {
+        const { error: dependentError } = await supabaseAdmin
+          .from(table)
+          .delete()
+          .in('message_id', messageIds);
+
+        if (dependentError) throw dependentError;
+      }
+    }
+
     // Delete messages between the two users
     const { error } = await supabaseAdmin
       .from('messages')
       .delete()
-      .or(`and(sender_id.eq.${userId},receiver_id.eq.${contactId}),and(sender_id.eq.${contactId},receiver_id.eq.${userId})`);
+      .or(conversation);
 
     if (error) throw error;
 
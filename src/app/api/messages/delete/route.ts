@@ -0,0 +1,87 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { messageId } = await req.json();
+
+    if (!messageId) {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+
+    const { data: message, error: fetchError } = await supabaseAdmin
+      .from("messages")
+      .select("id, sender_id, media_url, deleted_at")
+      .eq("id", messageId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    if (message.sender_id !== user.id) {
+      return NextResponse.json({ error: "Only the sender can delete a message for everyone" }, { status: 403 });
+    }
+    if (message.deleted_at) {
+      return NextResponse.json({ success: true, deleted_at: message.deleted_at });
+    }
+
+    if (message.media_url) {
+      const storagePath = message.media_url.split("/chat-media/")[1];
+      if (storagePath) {
+        const { error: storageError } = await supabaseAdmin.storage
+          .from("chat-media")
+          .remove([decodeURIComponent(storagePath)]);
+
+        if (storageError) {
+          return NextResponse.json({ error: storageError.message }, { status: 500 });
+        }
+      }
+    }
+
+    for (const table of ["message_reactions", "message_edits", "message_tombstones", "live_locations"]) {
+      const { error: dependentError } = await supabaseAdmin
+        .from(table)
+        .delete()
+        .eq("message_id", messageId);
+
+      if (dependentError) {
+        return NextResponse.json({ error: dependentError.message }, { status: 500 });
+      }
+    }
+
+    // The row stays as an empty shell so the partner sees a placeholder where the message was.
+    const deletedAt = new Date().toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from("messages")
+      .update({ encrypted_content: null, media_url: null, edited_at: null, deleted_at: deletedAt })
+      .eq("id", messageId);
+
+    if (updateError) {
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, deleted_at: deletedAt });
+  } catch (error: any) {
+    console.error("Delete message error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
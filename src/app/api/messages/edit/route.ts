@@ -0,0 +1,97 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { decodeEnvelope } from "@/lib/envelope";
+import { editDeadline } from "@/lib/messageEdits";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+/**
+ * Replaces the content of the caller's own text message while its edit window
+ * is open. The window is checked against the server's clock, and the replaced
+ * ciphertext is kept in `message_edits` before the message changes.
+ */
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { messageId, encryptedContent } = await req.json();
+
+    if (!messageId || typeof encryptedContent !== "string") {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+
+    const { data: message, error: fetchError } = await supabaseAdmin
+      .from("messages")
+      .select("id, sender_id, encrypted_content, media_type, created_at, deleted_at")
+      .eq("id", messageId)
+      .maybeSingle();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+    if (!message) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    if (message.sender_id !== user.id) {
+      return NextResponse.json({ error: "Only the sender can edit a message" }, { status: 403 });
+    }
+    if (message.media_type && message.media_type !== "text") {
+      return NextResponse.json({ error: "Only text messages can be edited" }, { status: 400 });
+    }
+    if (message.deleted_at || !message.encrypted_content) {
+      return NextResponse.json({ error: "Message was deleted" }, { status: 409 });
+    }
+
+    const now = new Date();
+    if (now.getTime() >= editDeadline(message)) {
+      return NextResponse.json({ error: "Edit window has closed" }, { status: 409 });
+    }
+
+    let previous: { iv: string; content: string };
+    try {
+      decodeEnvelope(encryptedContent);
+      previous = decodeEnvelope(message.encrypted_content);
+    } catch {
+      return NextResponse.json({ error: "Malformed envelope" }, { status: 400 });
+    }
+
+    const { error: historyError } = await supabaseAdmin.from("message_edits").insert({
+      message_id: messageId,
+      editor_id: user.id,
+      iv: previous.iv,
+      content: previous.content,
+    });
+
+    if (historyError) {
+      return NextResponse.json({ error: historyError.message }, { status: 500 });
+    }
+
+    const editedAt = now.toISOString();
+    const { error: updateError } = await supabaseAdmin
+      .from("messages")
+      .update({ encrypted_content: encryptedContent, edited_at: editedAt })
+      .eq("id", messageId)
+      .is("deleted_at", null);
+
+    if (updateError) {
+      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, edited_at: editedAt });
+  } catch (error: any) {
+    console.error("Edit message error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
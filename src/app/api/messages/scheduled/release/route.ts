@@ -0,0 +1,118 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { autoDeleteFields } from "@/lib/autoDelete";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MAX_BATCH = 100;
+
+/**
+ * Moves scheduled messages whose time has come into `messages` and notifies
+ * their receivers. Cron calls it with `CRON_SECRET` and releases everyone's;
+ * a signed-in sender may release only their own. Overlapping runs are
+ * harmless because a message keeps its scheduled id, so a second insert of
+ * the same row fails instead of duplicating it.
+ */
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    let senderId: string | null = null;
+    if (!process.env.CRON_SECRET || token !== process.env.CRON_SECRET) {
+      const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      senderId = user.id;
+    }
+
+    const now = new Date();
+
+    let query = supabaseAdmin
+      .from("scheduled_messages")
+      .select("*")
+      .lte("send_at", now.toISOString());
+
+    if (senderId) {
+      query = query.eq("sender_id", senderId);
+    }
+
+    const { data: due, error: fetchError } = await query
+      .order("send_at", { ascending: true })
+      .limit(MAX_BATCH);
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+
+    if (!due || due.length === 0) {
+      return NextResponse.json({ message: "No scheduled messages due", released: 0 });
+    }
+
+    const senderIds = [...new Set(due.map(row => row.sender_id))];
+    const { data: senders } = await supabaseAdmin.from("profiles").select("id, username").in("id", senderIds);
+    const usernames = new Map((senders || []).map(s => [s.id, s.username]));
+
+    let released = 0;
+    const failures: string[] = [];
+
+    for (const row of due) {
+      const { error: insertError } = await supabaseAdmin.from("messages").insert({
+        id: row.id,
+        sender_id: row.sender_id,
+        receiver_id: row.receiver_id,
+        encrypted_content: row.encrypted_content,
+        media_type: row.media_type,
+        is_viewed: false,
+        ...autoDeleteFields(row.auto_delete_mode, now.getTime())
+      });
+
+      // 23505: an overlapping run already released this one.
+      if (insertError && insertError.code !== "23505") {
+        console.error("Scheduled message release error:", insertError);
+        failures.push(row.id);
+        continue;
+      }
+
+      const { error: deleteError } = await supabaseAdmin.from("scheduled_messages").delete().eq("id", row.id);
+      if (deleteError) console.error("Scheduled message cleanup error:", deleteError);
+      if (insertError) continue;
+
+      released++;
+      try {
+        await fetch(new URL("/api/push/send", req.url), {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            userId: row.receiver_id,
+            title: "New Message",
+            body: `Message from ${usernames.get(row.sender_id) || "someone"}`,
+            senderId: row.sender_id,
+            tag: `chatify-${row.id}`,
+            url: "/"
+          })
+        });
+      } catch (pushError) {
+        console.error("Scheduled message push error:", pushError);
+      }
+    }
+
+    return NextResponse.json({ message: "Scheduled messages released", released, failures: failures.length });
+  } catch (error: any) {
+    console.error("Scheduled message release error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/** Vercel Cron calls with GET. */
+export async function GET(req: Request) {
+  return POST(req);
+}
@@ -0,0 +1,159 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { AUTO_DELETE_MODES } from "@/lib/autoDelete";
+import { isValidSendTime } from "@/lib/scheduledMessages";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function authenticate(req: Request) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+  return error ? null : user;
+}
+
+/**
+ * Schedules a sealed message. The sender is whoever the session token belongs
+ * to, never the request body, since the release job copies the row into
+ * `messages` with the service role.
+ */
+export async function POST(req: Request) {
+  try {
+    const user = await authenticate(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, receiverId, encryptedContent, autoDeleteMode, sendAt } = await req.json();
+
+    if (typeof id !== "string" || !UUID.test(id) || !receiverId || typeof encryptedContent !== "string" || !sendAt) {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+    if (!AUTO_DELETE_MODES.includes(autoDeleteMode)) {
+      return NextResponse.json({ error: "Unknown auto-delete mode" }, { status: 400 });
+    }
+    if (!isValidSendTime(new Date(sendAt))) {
+      return NextResponse.json({ error: "Send time is too soon" }, { status: 400 });
+    }
+    if (receiverId === user.id) {
+      return NextResponse.json({ error: "Cannot schedule a message to yourself" }, { status: 400 });
+    }
+
+    const { data: receiver, error: receiverError } = await supabaseAdmin
+      .from("profiles")
+      .select("id")
+      .eq("id", receiverId)
+      .maybeSingle();
+
+    if (receiverError) {
+      return NextResponse.json({ error: receiverError.message }, { status: 500 });
+    }
+    if (!receiver) {
+      return NextResponse.json({ error: "Receiver not found" }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("scheduled_messages")
+      .insert({
+        id,
+        sender_id: user.id,
+        receiver_id: receiverId,
+        encrypted_content: encryptedContent,
+        media_type: "text",
+        auto_delete_mode: autoDeleteMode,
+        send_at: new Date(sendAt).toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, scheduled: data });
+  } catch (error: any) {
+    console.error("Schedule message error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+/** Replaces the envelope and send time of one of the caller's pending messages. */
+export async function PATCH(req: Request) {
+  try {
+    const user = await authenticate(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, encryptedContent, sendAt } = await req.json();
+
+    if (!id || typeof encryptedContent !== "string" || !sendAt) {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+    if (!isValidSendTime(new Date(sendAt))) {
+      return NextResponse.json({ error: "Send time is too soon" }, { status: 400 });
+    }
+
+    // Rows that are already due belong to the release job and are left alone.
+    const { data, error } = await supabaseAdmin
+      .from("scheduled_messages")
+      .update({ encrypted_content: encryptedContent, send_at: new Date(sendAt).toISOString() })
+      .eq("id", id)
+      .eq("sender_id", user.id)
+      .gt("send_at", new Date().toISOString())
+      .select();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data?.[0]) {
+      return NextResponse.json({ error: "Already sent" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true, scheduled: data[0] });
+  } catch (error: any) {
+    console.error("Update scheduled message error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request) {
+  try {
+    const user = await authenticate(req);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("scheduled_messages")
+      .delete()
+      .eq("id", id)
+      .eq("sender_id", user.id)
+      .gt("send_at", new Date().toISOString())
+      .select("id");
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data?.[0]) {
+      return NextResponse.json({ error: "Already sent" }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Cancel scheduled message error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { autoRefreshToken: false, persistSession: false } }
+);
+
+const MAX_BATCH = 200;
+const SNAPSHOT_MAX_VIEWS = 2;
+
+interface StatusRow {
+  id: string;
+  is_delivered: boolean | null;
+  is_disappearing: boolean | null;
+  disappearing_duration: number | null;
+  expires_at: string | null;
+}
+
+function viewedUpdate(message: StatusRow, now: Date, readReceipts: boolean, deliveryReceipts: boolean) {
+  const update: Record<string, unknown> = { is_viewed: true };
+  if (deliveryReceipts && !message.is_delivered) {
+    update.is_delivered = true;
+    update.delivered_at = now.toISOString();
+  }
+  if (readReceipts) update.viewed_at = now.toISOString();
+  if (message.is_disappearing && message.disappearing_duration && !message.expires_at) {
+    update.expires_at = new Date(now.getTime() + message.disappearing_duration * 60 * 1000).toISOString();
+  }
+  return update;
+}
+
+/**
+ * Moves a batch of the caller's received messages forward: sent → delivered →
+ * viewed, never back. Receipt timestamps are only written when the receiver
+ * shares that kind of receipt, and a disappearing message's expiry is set here,
+ * once, from its own duration. `snapshot_view` counts one opening of a
+ * snapshot, which is spent after its last allowed view.
+ */
+export async function POST(req: Request) {
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { messageIds, status } = await req.json();
+
+    if (!Array.isArray(messageIds) || messageIds.length === 0 || !["delivered", "viewed", "snapshot_view"].includes(status)) {
+      return NextResponse.json({ error: "Missing parameters" }, { status: 400 });
+    }
+    if (messageIds.length > MAX_BATCH) {
+      return NextResponse.json({ error: `At most ${MAX_BATCH} messages per request` }, { status: 400 });
+    }
+
+    const [{ data: messages, error: fetchError }, { data: prefs, error: prefsError }] = await Promise.all([
+      supabaseAdmin
+        .from("messages")
+        .select("id, media_type, view_count, is_delivered, is_viewed, is_disappearing, disappearing_duration, expires_at, deleted_at")
+        .eq("receiver_id", user.id)
+        .in("id", messageIds),
+      supabaseAdmin
+        .from("profiles")
+        .select("read_receipts, delivery_receipts")
+        .eq("id", user.id)
+        .maybeSingle(),
+    ]);
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message }, { status: 500 });
+    }
+    if (prefsError) {
+      return NextResponse.json({ error: prefsError.message }, { status: 500 });
+    }
+
+    const readReceipts = prefs?.read_receipts !== false;
+    const deliveryReceipts = prefs?.delivery_receipts !== false;
+    const now = new Date();
+
+    if (status === "snapshot_view") {
+      const updated: string[] = [];
+      for (const message of messages || []) {
+        const views = message.view_count || 0;
+        if (message.deleted_at || message.media_type !== "snapshot" || views >= SNAPSHOT_MAX_VIEWS) continue;
+
+        const update: Record<string, unknown> = { view_count: views + 1 };
+        if (views + 1 >= SNAPSHOT_MAX_VIEWS && !message.is_viewed) {
+          Object.assign(update, viewedUpdate(message, now, readReceipts, deliveryReceipts));
+        }
+
+        // Matching the count read above keeps two openings at once from both being counted as the first.
+        let query = supabaseAdmin.from("messages").update(update).eq("id", message.id);
+        query = message.view_count === null ? query.is("view_count", null) : query.eq("view_count", views);
+        const { error: updateError } = await query;
+
+        if (updateError) {
+          return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
+        updated.push(message.id);
+      }
+      return NextResponse.json({ success: true, updated });
+    }
+
+    // Rows needing the same update are written together, so a page of messages costs a handful of queries.
+    const batches = new Map<string, { update: Record<string, unknown>; ids: string[]; guard: "is_delivered" | "is_viewed" }>();
+
+    for (const message of messages || []) {
+      if (message.deleted_at || message.is_viewed) continue;
+
+      let update: Record<string, unknown> = {};
+      if (status === "viewed") {
+        update = viewedUpdate(message, now, readReceipts, deliveryReceipts);
+      } else if (deliveryReceipts && !message.is_delivered) {
+        update.is_delivered = true;
+        update.delivered_at = now.toISOString();
+      }
+      if (Object.keys(update).length === 0) continue;
+
+      const guard = update.is_viewed ? "is_viewed" : "is_delivered";
+      const key = `${guard}:${JSON.stringify(update)}`;
+      const batch = batches.get(key) || { update, ids: [], guard };
+      batch.ids.push(message.id);
+      batches.set(key, batch);
+    }
+
+    const updated: string[] = [];
+    for (const { update, ids, guard } of batches.values()) {
+      // The guard keeps a concurrent request from moving a row that has already moved on.
+      const { error: updateError } = await supabaseAdmin
+        .from("messages")
+        .update(update)
+        .in("id", ids)
+        .not(guard, "is", true);
+
+      if (updateError) {
+        return NextResponse.json({ error: updateError.message }, { status: 500 });
+      }
+      updated.push(...ids);
+    }
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error: any) {
+    console.error("Message status error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -7,11 +7,16 @@ import { UserDashboardView } from "@/components/UserDashboardView";
 import { OTPVerification } from "@/components/OTPVerification";
 import { Lock, Shield, Zap, Globe, MessageSquare, Phone, MapPin, Video as VideoIcon, Terminal, Cpu, Radio, Activity, Sparkles, Fingerprint, Flame, Users, Star, Heart, ArrowRight, ShieldAlert, Network, Box } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import { generateKeyPair, exportPublicKey, exportPrivateKey, importPrivateKey } from "@/lib/crypto";
+import { generateKeyPair, exportPublicKey, exportPrivateKey, importPrivateKey, derivePublicKey } from "@/lib/crypto";
 import { toast } from "sonner";
 import { usePushNotifications } from "@/hooks/usePushNotifications";
 
 import { PasswordGate } from "@/components/PasswordGate";
+import { KeyRecovery } from "@/components/KeyRecovery";
+import { fetchKeyBackup, type StoredKeyBackup } from "@/lib/keyBackup";
+import { registerDevice, forgetDevice, getDeviceId } from "@/lib/devices";
+import { publishPrekeys } from "@/lib/sessions";
+import { publishSigningKey } from "@/lib/signing";
 import { InstallPrompt } from "@/components/InstallPrompt";
 import { ScreenProtection } from "@/components/ScreenProtection";
 
@@ -160,6 +165,7 @@ export default function Home() {
   }, [session, isApproved, otpRequired, otpVerified, pushSupported, pushPermission, pushSubscription]);
 
   const [keyError, setKeyError] = useState(false);
+  const [keyRecovery, setKeyRecovery] = useState<{ backup: StoredKeyBackup | null } | null>(null);
 
   async function handleKeySetup() {
     try {
@@ -167,15 +173,14 @@ export default function Home() {
       if (storedPrivKey && storedPrivKey !== "undefined" && storedPrivKey !== "null") {
         try {
           const key = await importPrivateKey(storedPrivKey);
-          setPrivateKey(key);
+          await activateDevice(key);
           setKeyError(false);
+          return;
         } catch (e) {
-          console.error("Failed to import stored key, generating new one", e);
-          await generateAndStoreNewKey();
+          console.error("Failed to import stored key", e);
         }
-      } else {
-        await generateAndStoreNewKey();
       }
+      await beginKeyRecovery();
     } catch (error) {
       console.error("Key setup failed:", error);
       setKeyError(true);
@@ -183,13 +188,40 @@ export default function Home() {
     }
   }
 
+  async function beginKeyRecovery() {
+    const [backup, { data: profile }] = await Promise.all([
+      fetchKeyBackup(session.user.id),
+      supabase.from("profiles").select("public_key").eq("id", session.user.id).maybeSingle()
+    ]);
+
+    // A brand-new account has nothing to lose, so there is nothing to recover.
+    if (!backup && !profile?.public_key) {
+      await generateAndStoreNewKey();
+      return;
+    }
+    setKeyRecovery({ backup });
+  }
+
+  async function handleKeyRestored(privKeyBase64: string) {
+    const key = await importPrivateKey(privKeyBase64);
+    localStorage.setItem(`priv_key_${session.user.id}`, privKeyBase64);
+    await activateDevice(key);
+    setKeyError(false);
+    setKeyRecovery(null);
+  }
+
+  async function handleGenerateFreshKey() {
+    await generateAndStoreNewKey();
+    setKeyRecovery(null);
+    toast.info("New key generated. Back it up from Settings to avoid losing it again.");
+  }
+
   async function generateAndStoreNewKey() {
     const keyPair = await generateKeyPair();
     const pubKeyBase64 = await exportPublicKey(keyPair.publicKey);
     const privKeyBase64 = await exportPrivateKey(keyPair.privateKey);
     
     localStorage.setItem(`priv_key_${session.user.id}`, privKeyBase64);
-    setPrivateKey(keyPair.privateKey);
 
     await supabase.from("profiles").upsert({
       id: session.user.id,
@@ -197,6 +229,30 @@ export default function Home() {
       username: session.user.email?.split("@")[0],
       updated_at: new Date().toISOString(),
     });
+    await activateDevice(keyPair.privateKey);
+  }
+
+  async function activateDevice(key: CryptoKey) {
+    try {
+      const pubKeyBase64 = await exportPublicKey(await derivePublicKey(key));
+      const isActive = await registerDevice(session.user.id, pubKeyBase64);
+      if (!isActive) {
+        forgetDevice(session.user.id);
+        toast.error("This device was removed from your account");
+        await supabase.auth.signOut();
+        return;
+      }
+      const deviceId = getDeviceId(session.user.id);
+      publishPrekeys(deviceId).catch((error) => {
+        console.error("Prekey publication failed:", error);
+      });
+      publishSigningKey(deviceId).catch((error) => {
+        console.error("Signing key publication failed:", error);
+      });
+    } catch (error) {
+      console.error("Device registration failed:", error);
+    }
+    setPrivateKey(key);
   }
 
   function handleOtpVerified() {
@@ -295,6 +351,16 @@ export default function Home() {
     );
   }
 
+  if (session && keyRecovery) {
+    return (
+      <KeyRecovery
+        backup={keyRecovery.backup}
+        onRestored={handleKeyRestored}
+        onGenerateNew={handleGenerateFreshKey}
+      />
+    );
+  }
+
   return (
     <ScreenProtection>
       <main className="min-h-[100dvh] bg-[#010101] text-foreground overflow-hidden relative selection:bg-indigo-500/30">
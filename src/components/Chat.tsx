@@ -1,16 +1,18 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useInView } from "react-intersection-observer";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
     Send, Plus, Camera, Image as ImageIcon, MapPin, 
-    Video, Mic, X, Download, Shield, AlertTriangle,
+    Video, Mic, X, Download, Shield, ShieldAlert, AlertTriangle,
     Eye, EyeOff, Save, Trash2, ShieldCheck, Lock,
     Sparkles, Zap, ChevronLeft, Phone, Check, CheckCheck, ArrowLeft,
     MoreVertical, Trash, Star, Heart, ThumbsUp, Smile, Frown, Meh,
-    Volume2, VolumeX, Minimize2, Maximize2, CameraOff, SwitchCamera
+    Volume2, VolumeX, Minimize2, Maximize2, CameraOff, SwitchCamera, Reply, Edit3, FileText, Radio,
+    Clock, AlertCircle, RotateCcw, CalendarClock
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,8 +22,48 @@ import { sendPushNotification } from "@/hooks/usePushNotifications";
 import { 
   generateAESKey, encryptWithAES, decryptWithAES, 
   encryptAESKeyForUser, decryptAESKeyWithUserPrivateKey, 
-  importPublicKey, encryptBlob, decryptToBlob
+  importPublicKey, importAESKey, encryptBlob, decryptToBlob, exportKey, sha256Hex
 } from "@/lib/crypto";
+import { getDeviceId, fetchActiveDeviceKeys } from "@/lib/devices";
+import {
+  decodeEnvelope, encodeEnvelope, envelopeSigningPayload, EnvelopeError, EnvelopeDecryptionError, MalformedEnvelopeError,
+  MissingRecipientKeyError, UnsupportedEnvelopeVersionError, sealMessageMeta, openMessageMeta,
+  type Envelope, type MessageMeta
+} from "@/lib/envelope";
+import { signPayload, verifyPayload, forgetSigners } from "@/lib/signing";
+import { loadRetiredPrivateKeys } from "@/lib/keyRotation";
+import { sealMessageKey, openMessageKey } from "@/lib/sessions";
+import { openMessageKeys } from "@/lib/messageKeys";
+import { computeSafetyNumber, checkKeyTrust, fetchIdentityKeys, type KeyTrustStatus } from "@/lib/safetyNumber";
+import { SafetyNumber } from "./SafetyNumber";
+import { EncryptedImage } from "./EncryptedImage";
+import { ReactionPicker, ReactionChips } from "./MessageReactions";
+import { EditHistory } from "./EditHistory";
+import { ScheduledMessages, type ScheduledItem } from "./ScheduledMessages";
+import { DeleteMessageDialog } from "./DeleteMessageDialog";
+import { VoiceNote } from "./VoiceNote";
+import { EncryptedVideo } from "./EncryptedVideo";
+import { FileAttachment } from "./FileAttachment";
+import { LocationBubble } from "./LocationBubble";
+import { useLiveLocationSharing } from "@/hooks/useLiveLocationSharing";
+import { LIVE_LOCATION_DURATIONS, fetchLiveLocationRows, openLiveLocation, type LiveLocation, type LiveLocationRow } from "@/lib/liveLocation";
+import { getCurrentPosition } from "@/lib/geolocation";
+import { openSearchIndex, type SearchEntry } from "@/lib/searchIndex";
+import { openOutbox, type OutboxEntry, type OutboxStatus } from "@/lib/outbox";
+import { openMessageCache, type CachedMessage } from "@/lib/messageCache";
+import { ATTACHMENT_MAX_BYTES, AttachmentIntegrityError, verifyAttachment, saveBlob } from "@/lib/attachments";
+import { uploadEncryptedMedia } from "@/lib/mediaUpload";
+import { VIDEO_MAX_BYTES, createVideoPreview } from "@/lib/videoMessages";
+import { useVoiceRecorder } from "@/hooks/useVoiceRecorder";
+import { useLongPress } from "@/hooks/useLongPress";
+import { formatDuration } from "@/lib/voiceNotes";
+import { fetchHiddenMessageIds, hideMessageForMe, deleteMessageForEveryone } from "@/lib/messageDeletion";
+import { canEditMessage, submitEdit, isLateEdit, textAtEditDeadline, fetchEditHistory, MESSAGE_EDIT_WINDOW_MINUTES, type MessageVersion } from "@/lib/messageEdits";
+import { fetchReactionRows, openReaction, setReaction, type Reaction, type ReactionKind, type ReactionRow } from "@/lib/reactions";
+import { fetchReceiptPreferences, markMessages, receiptStatus, PRIVATE_RECEIPT_PREFERENCES, type ReceiptPreferences } from "@/lib/receipts";
+import { fetchScheduledMessages, scheduleMessage, updateScheduledMessage, cancelScheduledMessage, isValidSendTime, toDateTimeLocal, ScheduledMessageReleasedError, SCHEDULE_MIN_LEAD_MINUTES } from "@/lib/scheduledMessages";
+import { autoDeleteFields } from "@/lib/autoDelete";
+import { fetchMessagePage, cursorOf, MESSAGE_PAGE_SIZE, type MessagePage } from "@/lib/messagePages";
 
 interface ChatProps {
   session: any;
@@ -32,13 +74,21 @@ interface ChatProps {
   onInitiateCall: (contact: any, mode: "video" | "voice") => void;
   isFriend?: boolean;
   onSendFriendRequest?: (userId: string) => void;
+  /** A message to scroll to once the conversation has loaded, e.g. from search. */
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-export function Chat({ session, privateKey, initialContact, isPartnerOnline, onBack, onInitiateCall, isFriend = true, onSendFriendRequest }: ChatProps) {
+export function Chat({ session, privateKey, initialContact, isPartnerOnline, onBack, onInitiateCall, isFriend = true, onSendFriendRequest, focusMessageId, onFocusHandled }: ChatProps) {
   const router = useRouter();
   const [messages, setMessages] = useState<any[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [scheduled, setScheduled] = useState<ScheduledItem[]>([]);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState<string | null>(null);
+  const [receiptPrefs, setReceiptPrefs] = useState<ReceiptPreferences>(PRIVATE_RECEIPT_PREFERENCES);
   const [showOptions, setShowOptions] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [myPublicKey, setMyPublicKey] = useState<CryptoKey | null>(null);
@@ -49,8 +99,31 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
   const [showCamera, setShowCamera] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [blobUrls, setBlobUrls] = useState<Set<string>>(new Set());
+  const [keyTrust, setKeyTrust] = useState<{ status: KeyTrustStatus; safetyNumber: string } | null>(null);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<any>(null);
+  const [replyParents, setReplyParents] = useState<Record<string, any | null>>({});
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [reactions, setReactions] = useState<Record<string, Reaction[]>>({});
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<any>(null);
+  const [editHistory, setEditHistory] = useState<{ msg: any; versions: MessageVersion[] | null } | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<any>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [liveLocations, setLiveLocations] = useState<Record<string, LiveLocation>>({});
+  const [showLocationOptions, setShowLocationOptions] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+  const messageKeysRef = useRef(new Map<string, CryptoKey>());
+  const mediaLoadsRef = useRef(new Map<string, Promise<string | null>>());
+  const hiddenIdsRef = useRef(new Set<string>());
+  const deliveringRef = useRef(new Set<string>());
+  const { ref: olderSentinelRef, inView: olderSentinelVisible } = useInView({ rootMargin: "200px 0px" });
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -125,6 +198,50 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
     initMyPublicKey();
   }, [session.user.id]);
 
+  useEffect(() => {
+    fetchReceiptPreferences(session.user.id)
+      .then(setReceiptPrefs)
+      .catch(err => console.error("Receipt preferences error:", err));
+  }, [session.user.id]);
+
+  useEffect(() => {
+    async function checkContactKey() {
+      try {
+        const keys = await fetchIdentityKeys([session.user.id, initialContact.id]);
+        const myKeys = keys.get(session.user.id);
+        const contactKeys = keys.get(initialContact.id);
+        if (!myKeys || !contactKeys) {
+          setKeyTrust(null);
+          return;
+        }
+        const safetyNumber = await computeSafetyNumber(session.user.id, myKeys, initialContact.id, contactKeys);
+        setKeyTrust({ status: checkKeyTrust(session.user.id, initialContact.id, safetyNumber), safetyNumber });
+      } catch (e) {
+        console.error("Failed to compute safety number", e);
+      }
+    }
+    checkContactKey();
+
+    // A device added, revoked or re-keyed on either side changes the number and who may sign.
+    const devicesChannel = supabase.channel(`devices-${session.user.id}-${initialContact.id}`);
+    for (const userId of [session.user.id, initialContact.id]) {
+      devicesChannel.on("postgres_changes", {
+        event: "*",
+        schema: "public",
+        table: "devices",
+        filter: `user_id=eq.${userId}`
+      }, () => {
+        forgetSigners();
+        checkContactKey();
+      });
+    }
+    devicesChannel.subscribe();
+
+    return () => {
+      supabase.removeChannel(devicesChannel);
+    };
+  }, [session.user.id, initialContact.id]);
+
   const clearChat = async () => {
     if (!confirm("Are you sure you want to clear all chat history? This cannot be undone.")) return;
     
@@ -136,6 +253,9 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
       });
       
       if (response.ok) {
+        forgetConversationKeys();
+        unindexConversation();
+        uncacheConversation();
         setMessages([]);
         const signalChannel = supabase.channel(`chat-signals-${initialContact.id}`);
         await signalChannel.subscribe();
@@ -155,93 +275,566 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
     }
   };
 
-  const decryptMessageContent = async (msg: any) => {
+  const unwrapMessageKey = async (...wrappedKeys: (string | undefined)[]) => {
+    const candidates = wrappedKeys.filter((k): k is string => !!k);
+    const privateKeys = [privateKey, ...(await loadRetiredPrivateKeys(session.user.id))];
+    let lastError: unknown = new MissingRecipientKeyError();
+    for (const key of privateKeys) {
+      for (const wrapped of candidates) {
+        try {
+          return await decryptAESKeyWithUserPrivateKey(wrapped, key);
+        } catch (e) {
+          lastError = e;
+        }
+      }
+    }
+    throw lastError;
+  };
+
+  const recallKey = async (id: string): Promise<CryptoKey | null> => {
+    try {
+      return await (await openMessageKeys(session.user.id)).get(id);
+    } catch (err) {
+      console.error("Message key store read error:", err);
+      return null;
+    }
+  };
+
+  const rememberKey = async (msg: { id: string; created_at: string }, rawKeyBase64: string) => {
     try {
-      if (!msg.encrypted_content) return "[Signal Purged]";
+      await (await openMessageKeys(session.user.id)).put({ id: msg.id, contact_id: initialContact.id, created_at: msg.created_at }, rawKeyBase64);
+    } catch (err) {
+      console.error("Message key store update error:", err);
+    }
+  };
+
+  const forgetKeys = async (ids: string[]) => {
+    try {
+      await (await openMessageKeys(session.user.id)).remove(ids);
+    } catch (err) {
+      console.error("Message key store update error:", err);
+    }
+  };
+
+  const forgetConversationKeys = async () => {
+    try {
+      await (await openMessageKeys(session.user.id)).removeConversation(initialContact.id);
+    } catch (err) {
+      console.error("Message key store update error:", err);
+    }
+  };
+
+  const resolveMessageKey = async (msg: any, envelope: Envelope): Promise<CryptoKey> => {
+    const myDeviceId = getDeviceId(session.user.id);
+
+    if (envelope.v === 2) {
+      const remembered = await recallKey(msg.id);
+      if (remembered) return remembered;
+
+      let aesKey: CryptoKey;
+      if (envelope.sessions[myDeviceId]) {
+        aesKey = await openMessageKey(myDeviceId, envelope.sender_device, envelope.sessions[myDeviceId]);
+      } else if (envelope.device_keys[myDeviceId]) {
+        aesKey = await unwrapMessageKey(envelope.device_keys[myDeviceId]);
+      } else {
+        throw new MissingRecipientKeyError();
+      }
+      await rememberKey(msg, await exportKey(aesKey));
+      return aesKey;
+    }
+
+    const deviceKey = envelope.device_keys?.[myDeviceId];
+    const encryptedAESKey = envelope.keys[session.user.id];
+    if (!deviceKey && !encryptedAESKey) throw new MissingRecipientKeyError();
+    return await unwrapMessageKey(deviceKey, encryptedAESKey);
+  };
+
+  const describeEnvelopeError = (e: unknown) => {
+    if (e instanceof MalformedEnvelopeError) return "[Secure Signal: Malformed packet]";
+    if (e instanceof UnsupportedEnvelopeVersionError) return "[Secure Signal: Update required]";
+    if (e instanceof MissingRecipientKeyError) return "[Secure Signal: Node mismatch]";
+    return "[Secure Signal: Decryption failed]";
+  };
+
+  const verifySender = async (msg: any, envelope: Envelope) => {
+    const senderDevice = envelope.sender_device;
+    if (!envelope.signature || !senderDevice) return false;
+    const payload = envelopeSigningPayload(envelope, msg.id, msg.sender_id, msg.receiver_id);
+    return await verifyPayload(msg.sender_id, senderDevice, payload, envelope.signature, msg.created_at);
+  };
+
+  const decryptMessageContent = async (msg: any): Promise<{ decrypted_content: string; sender_verified?: boolean; media_pending?: boolean; media_error?: boolean; meta?: MessageMeta }> => {
+    let sender_verified: boolean | undefined;
+    let meta: MessageMeta | undefined;
+    const opened = (decrypted_content: string) => ({ decrypted_content, sender_verified, meta });
+    const isMedia = ["image", "snapshot", "voice", "video", "file"].includes(msg.media_type);
+
+    try {
+      if (msg.deleted_at) return opened("");
+      if (!msg.encrypted_content) return opened("[Signal Purged]");
       
-      let packet;
+      const envelope = decodeEnvelope(msg.encrypted_content);
+      sender_verified = await verifySender(msg, envelope);
+
+      if (!privateKey) return opened("[Synchronizing...]");
+
+      let aesKey: CryptoKey;
       try {
-        packet = JSON.parse(msg.encrypted_content);
+        aesKey = await resolveMessageKey(msg, envelope);
       } catch (e) {
-        return msg.encrypted_content;
+        throw e instanceof EnvelopeError ? e : new EnvelopeDecryptionError(e);
       }
-
-      if (!packet.iv || !packet.content || !packet.keys) {
-        return msg.encrypted_content;
+      messageKeysRef.current.set(msg.id, aesKey);
+      meta = await openMessageMeta(envelope, aesKey);
+      
+      if (isMedia) {
+        if (!msg.media_url) return { ...opened("[Media Purged]"), media_error: true };
+        // The download and decryption wait until the bubble is on screen; see loadMedia.
+        return { ...opened(""), media_pending: true };
       }
 
-      const encryptedAESKey = packet.keys[session.user.id];
-      if (!encryptedAESKey) {
-        return "[Secure Signal: Node mismatch]";
+      if (isLateEdit(msg)) {
+        // Edits past the window are not shown; the text as it stood when the window closed is.
+        const original = await textAtEditDeadline(msg, aesKey);
+        return opened(original ?? "[Secure Signal: Edit rejected]");
       }
 
-      if (!privateKey) return "[Synchronizing...]";
+      const decrypted = await decryptWithAES(envelope.content, envelope.iv, aesKey);
+      return opened(decrypted || "[Empty Signal]");
+    } catch (e) {
+      console.error(`Message ${msg.id} could not be opened:`, e);
+      return { ...opened(describeEnvelopeError(e)), media_error: isMedia || undefined };
+    }
+  };
 
-      const aesKey = await decryptAESKeyWithUserPrivateKey(encryptedAESKey, privateKey);
-      
-      if (msg.media_type === "image" || msg.media_type === "snapshot") {
-        if (!msg.media_url) return "[Media Purged]";
-        
+  const fetchMediaUrl = async (msg: any): Promise<string | null> => {
+    try {
+      let decryptedBlob = await loadCachedMedia(msg.id);
+      if (!decryptedBlob) {
+        const envelope = decodeEnvelope(msg.encrypted_content);
+        const aesKey = messageKeysRef.current.get(msg.id) || await resolveMessageKey(msg, envelope);
         const response = await fetch(msg.media_url);
-        if (!response.ok) return "[Media Purged]";
+        if (!response.ok) throw new Error(`Media download failed with ${response.status}`);
         const encryptedArrayBuffer = await response.arrayBuffer();
-        
-        const mimeType = msg.media_type === "snapshot" ? "image/jpeg" : "image/*";
-        const decryptedBlob = await decryptToBlob(encryptedArrayBuffer, packet.media_iv || packet.iv, aesKey, mimeType);
-        const url = URL.createObjectURL(decryptedBlob);
-        setBlobUrls(prev => new Set(prev).add(url));
-        return url;
-      }
 
-      const decrypted = await decryptWithAES(packet.content, packet.iv, aesKey);
-      return decrypted || "[Empty Signal]";
+        const mimeType = msg.meta?.media?.mime || (msg.media_type === "snapshot" ? "image/jpeg" : "image/*");
+        decryptedBlob = await decryptToBlob(encryptedArrayBuffer, envelope.media_iv || envelope.iv, aesKey, mimeType);
+        cacheMedia(msg, decryptedBlob);
+      }
+      const url = URL.createObjectURL(decryptedBlob);
+      setBlobUrls(prev => new Set(prev).add(url));
+      setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, decrypted_content: url, media_pending: false } : m));
+      return url;
     } catch (e) {
-      return "[Signal Clear]";
+      console.error(`Media for message ${msg.id} could not be opened:`, e);
+      setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, decrypted_content: "[Media Purged]", media_pending: false, media_error: true } : m));
+      return null;
     }
   };
 
-  const fetchMessages = async () => {
-    setLoading(true);
+  const loadMedia = (msg: any): Promise<string | null> => {
+    if (!msg.media_pending) return Promise.resolve(msg.media_error ? null : msg.decrypted_content || null);
+    let pending = mediaLoadsRef.current.get(msg.id);
+    if (!pending) {
+      pending = fetchMediaUrl(msg).finally(() => mediaLoadsRef.current.delete(msg.id));
+      mediaLoadsRef.current.set(msg.id, pending);
+    }
+    return pending;
+  };
+
+  const markViewed = async (rows: any[]) => {
+    const unviewed = rows.filter(m => m.receiver_id === session.user.id && !m.is_viewed);
     try {
-      const { data, error } = await supabase
-        .from("messages")
-        .select("*")
-        .or(`and(sender_id.eq.${session.user.id},receiver_id.eq.${initialContact.id}),and(sender_id.eq.${initialContact.id},receiver_id.eq.${session.user.id})`)
-        .order("created_at", { ascending: true });
-
-      if (!error && data) {
-        const decryptedMessages = await Promise.all(
-          data.map(async msg => ({ 
-            ...msg, 
-            decrypted_content: await decryptMessageContent(msg) 
-          }))
-        );
-        setMessages(decryptedMessages);
-        
-          const unviewed = data.filter(m => m.receiver_id === session.user.id && !m.is_viewed);
-          if (unviewed.length > 0) {
-            const now = new Date();
-            const updates = unviewed.map(m => {
-              const baseUpdate: any = { is_viewed: true, viewed_at: now.toISOString() };
-              if (m.is_disappearing && m.disappearing_duration) {
-                baseUpdate.expires_at = new Date(now.getTime() + m.disappearing_duration * 60 * 1000).toISOString();
-              }
-              return { id: m.id, ...baseUpdate };
-            });
+      await markMessages(unviewed.map(m => m.id), "viewed");
+    } catch (err) {
+      console.error("Mark viewed error:", err);
+    }
+  };
 
-            for (const update of updates) {
-              const { id, ...rest } = update;
-              await supabase.from("messages").update(rest).eq("id", id);
-            }
-          }
+  const applyReaction = (reaction: Reaction) => {
+    setReactions(prev => ({
+      ...prev,
+      [reaction.message_id]: [
+        ...(prev[reaction.message_id] || []).filter(r => r.user_id !== reaction.user_id),
+        reaction,
+      ],
+    }));
+  };
+
+  const removeReaction = (messageId: string, userId: string) => {
+    setReactions(prev => ({
+      ...prev,
+      [messageId]: (prev[messageId] || []).filter(r => r.user_id !== userId),
+    }));
+  };
+
+  const receiveReaction = async (row: ReactionRow) => {
+    const key = messageKeysRef.current.get(row.message_id);
+    if (!key) return;
+    const reaction = await openReaction(row, key);
+    if (reaction) applyReaction(reaction);
+  };
+
+  const loadReactions = async (messageIds: string[]) => {
+    try {
+      const rows = await fetchReactionRows(messageIds);
+      await Promise.all(rows.map(receiveReaction));
+    } catch (err) {
+      console.error("Fetch reactions error:", err);
+    }
+  };
+
+  const receiveLiveLocation = async (row: LiveLocationRow) => {
+    const key = messageKeysRef.current.get(row.message_id);
+    if (!key) return;
+    const location = await openLiveLocation(row, key);
+    if (location) setLiveLocations(prev => ({ ...prev, [row.message_id]: location }));
+  };
+
+  const loadLiveLocations = async (messageIds: string[]) => {
+    try {
+      const rows = await fetchLiveLocationRows(messageIds);
+      await Promise.all(rows.map(receiveLiveLocation));
+    } catch (err) {
+      console.error("Fetch live locations error:", err);
+    }
+  };
+
+  const toggleReaction = async (msg: any, kind: ReactionKind) => {
+    setReactionPickerFor(null);
+    const key = messageKeysRef.current.get(msg.id);
+    if (!key) {
+      toast.error("This message cannot be reacted to yet");
+      return;
+    }
+    const mine = reactions[msg.id]?.find(r => r.user_id === session.user.id);
+    const next = mine?.kind === kind ? null : kind;
+
+    if (next) {
+      applyReaction({ id: mine?.id || `pending-${msg.id}`, message_id: msg.id, user_id: session.user.id, kind: next });
+    } else {
+      removeReaction(msg.id, session.user.id);
+    }
+    try {
+      await setReaction(msg.id, session.user.id, next, key);
+    } catch (err) {
+      console.error("Reaction error:", err);
+      toast.error("Reaction failed");
+      if (mine) applyReaction(mine); else removeReaction(msg.id, session.user.id);
+    }
+  };
+
+  const searchableText = (msg: any): string | null => {
+    // Messages meant to vanish are never written to the on-device index.
+    if (msg.deleted_at || msg.is_view_once || msg.is_disappearing || msg.expires_at) return null;
+    if (hiddenIdsRef.current.has(msg.id) || !messageKeysRef.current.has(msg.id)) return null;
+    if (msg.media_type === "file") return msg.meta?.media?.name ?? null;
+    if (msg.media_type && msg.media_type !== "text") return null;
+    return msg.decrypted_content?.trim() || null;
+  };
+
+  /** Keeps the encrypted on-device search index in step with what this chat has decrypted. */
+  const indexMessages = async (rows: any[]) => {
+    const entries: SearchEntry[] = [];
+    const stale: string[] = [];
+    rows.forEach(msg => {
+      const text = searchableText(msg);
+      if (text) {
+        entries.push({ id: msg.id, contact_id: initialContact.id, sender_id: msg.sender_id, created_at: msg.created_at, text });
+      } else {
+        stale.push(msg.id);
       }
+    });
+    try {
+      const index = await openSearchIndex(session.user.id);
+      await index.add(entries);
+      await index.remove(stale);
+    } catch (err) {
+      console.error("Search index update error:", err);
+    }
+  };
+
+  const unindexMessages = async (ids: string[]) => {
+    try {
+      await (await openSearchIndex(session.user.id)).remove(ids);
+    } catch (err) {
+      console.error("Search index update error:", err);
+    }
+  };
+
+  const unindexConversation = async () => {
+    try {
+      await (await openSearchIndex(session.user.id)).removeConversation(initialContact.id);
+    } catch (err) {
+      console.error("Search index update error:", err);
+    }
+  };
+
+  // Like the search index, the local cache never holds messages meant to vanish.
+  const cacheable = (msg: any) =>
+    !msg.deleted_at && !msg.hidden && !msg.outbox_status && !msg.is_view_once && !msg.is_disappearing && !msg.expires_at
+      && msg.media_type !== "snapshot" && messageKeysRef.current.has(msg.id);
+
+  /** Keeps the encrypted on-device message cache in step with what this chat has decrypted. */
+  const cacheMessages = async (rows: any[]) => {
+    try {
+      const entries: CachedMessage[] = await Promise.all(rows.filter(cacheable).map(async ({ hidden: _hidden, ...msg }) => ({
+        // Blob URLs die with the page; media is cached separately and reopened on demand.
+        message: msg.media_url ? { ...msg, decrypted_content: "", media_pending: true, media_error: false } : msg,
+        key: await exportKey(messageKeysRef.current.get(msg.id)!),
+      })));
+      const cache = await openMessageCache(session.user.id);
+      await cache.put(initialContact.id, entries);
+      await cache.remove(rows.filter(msg => !cacheable(msg)).map(msg => msg.id));
+    } catch (err) {
+      console.error("Message cache update error:", err);
+    }
+  };
+
+  const uncacheMessages = async (ids: string[]) => {
+    try {
+      await (await openMessageCache(session.user.id)).remove(ids);
+    } catch (err) {
+      console.error("Message cache update error:", err);
+    }
+  };
+
+  const uncacheConversation = async () => {
+    try {
+      await (await openMessageCache(session.user.id)).removeConversation(initialContact.id);
+    } catch (err) {
+      console.error("Message cache update error:", err);
+    }
+  };
+
+  /** Drops cached messages and keys in the span a server page covered that the server no longer returned. */
+  const pruneCache = async (page: MessagePage, before?: string) => {
+    const after = page.hasMore ? page.messages[0]?.created_at : undefined;
+    try {
+      await (await openMessageCache(session.user.id)).retain(initialContact.id, page.messages.map(m => m.id), after, before);
+    } catch (err) {
+      console.error("Message cache update error:", err);
+    }
+    try {
+      await (await openMessageKeys(session.user.id)).retain(initialContact.id, page.messages.map(m => m.id), after, before);
+    } catch (err) {
+      console.error("Message key store update error:", err);
+    }
+  };
+
+  const cacheMedia = async (msg: any, blob: Blob) => {
+    if (!cacheable(msg)) return;
+    try {
+      await (await openMessageCache(session.user.id)).putMedia(msg.id, blob);
+    } catch (err) {
+      console.error("Media cache update error:", err);
+    }
+  };
+
+  const loadCachedMedia = async (id: string): Promise<Blob | null> => {
+    try {
+      return await (await openMessageCache(session.user.id)).getMedia(id);
+    } catch (err) {
+      console.error("Media cache read error:", err);
+      return null;
+    }
+  };
+
+  const loadCachedMessages = async (ids: string[]): Promise<Map<string, CachedMessage>> => {
+    try {
+      return await (await openMessageCache(session.user.id)).get(ids);
+    } catch (err) {
+      console.error("Message cache read error:", err);
+      return new Map();
+    }
+  };
+
+  /** The newest cached messages of this chat, with their keys restored, ready to paint. */
+  const loadCachedConversation = async () => {
+    try {
+      const entries = await (await openMessageCache(session.user.id)).latest(initialContact.id, MESSAGE_PAGE_SIZE);
+      return await Promise.all(entries.map(async ({ message, key }) => {
+        messageKeysRef.current.set(message.id, await importAESKey(key));
+        return { ...message, hidden: hiddenIdsRef.current.has(message.id) };
+      }));
+    } catch (err) {
+      console.error("Message cache read error:", err);
+      return [];
+    }
+  };
+
+  /** Reuses the cached plaintext when the row has not changed since it was cached, and decrypts otherwise. */
+  const openMessage = async (msg: any, cached?: CachedMessage) => {
+    if (!cached || msg.deleted_at || cached.message.edited_at !== msg.edited_at) {
+      return await decryptMessageContent(msg);
+    }
+    messageKeysRef.current.set(msg.id, await importAESKey(cached.key));
+    const { decrypted_content, sender_verified, meta, media_pending, media_error } = cached.message;
+    return { decrypted_content, sender_verified, meta, media_pending, media_error };
+  };
+
+  const openPage = async (rows: any[]) => {
+    let hidden = new Set<string>();
+    try {
+      hidden = await fetchHiddenMessageIds(session.user.id, rows.map(r => r.id));
+    } catch (err) {
+      console.error("Fetch tombstones error:", err);
+    }
+    hidden.forEach(id => hiddenIdsRef.current.add(id));
+    const cached = await loadCachedMessages(rows.map(r => r.id));
+    // Hidden rows stay in state so the oldest loaded message still anchors the next page.
+    const opened = await Promise.all(
+      rows.map(async msg => ({ 
+        ...msg, 
+        ...(await openMessage(msg, cached.get(msg.id))),
+        hidden: hidden.has(msg.id)
+      }))
+    );
+    markViewed(rows);
+    indexMessages(opened);
+    cacheMessages(opened);
+    loadReactions(rows.map(r => r.id));
+    loadLiveLocations(opened.filter(m => m.meta?.location?.live_until).map(m => m.id));
+    return opened;
+  };
+
+  const fetchMessages = async () => {
+    setLoading(true);
+    setHasOlder(false);
+    lastMessageIdRef.current = null;
+    const queued = await loadQueuedMessages();
+    const withQueued = (rows: any[]) => [...rows, ...queued.filter(q => !rows.some(m => m.id === q.id))];
+
+    // Paint what this device already decrypted, then reconcile with the server underneath it.
+    const cached = await loadCachedConversation();
+    if (cached.length > 0) {
+      setMessages(withQueued(cached));
+      setLoading(false);
+    }
+    setSyncing(true);
+    try {
+      const page = await fetchMessagePage(session.user.id, initialContact.id);
+      const opened = await openPage(page.messages);
+      pruneCache(page);
+      setMessages(prev => withQueued(opened.map(msg => {
+        // Keep media the cached bubble already decrypted instead of flashing back to a placeholder.
+        const shown = prev.find(m => m.id === msg.id);
+        return msg.media_pending && shown && !shown.media_pending && shown.edited_at === msg.edited_at
+          ? { ...msg, decrypted_content: shown.decrypted_content, media_pending: false, media_error: shown.media_error }
+          : msg;
+      })));
+      setHasOlder(page.hasMore);
     } catch (err) {
       console.error("Fetch messages error:", err);
+      if (cached.length === 0) setMessages(queued);
     } finally {
       setLoading(false);
+      setSyncing(false);
     }
+    if (navigator.onLine) flushOutbox();
   };
 
+  const loadQueuedMessages = async () => {
+    try {
+      const entries = await (await openOutbox(session.user.id)).list(initialContact.id);
+      await Promise.all(entries.map(async entry => {
+        messageKeysRef.current.set(entry.id, await importAESKey(entry.draft.key));
+      }));
+      return entries.map(outboxBubble);
+    } catch (err) {
+      console.error("Outbox load error:", err);
+      return [];
+    }
+  };
+
+  const fetchOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!oldest || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(session.user.id, initialContact.id, cursorOf(oldest));
+      const older = await openPage(page.messages);
+      pruneCache(page, oldest.created_at);
+      const container = scrollContainerRef.current;
+      if (container) {
+        scrollAnchorRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      }
+      setMessages(prev => [...older.filter(o => !prev.some(m => m.id === o.id)), ...prev]);
+      setHasOlder(page.hasMore);
+    } catch (err) {
+      console.error("Fetch older messages error:", err);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const jumpToMessage = async (id: string) => {
+    if (!messages.some(m => m.id === id)) {
+      // The original is further back than what is loaded; page back until it appears.
+      const collected: any[] = [];
+      let oldest = messages[0];
+      let more = hasOlder;
+      while (more && oldest && !collected.some(m => m.id === id)) {
+        const page = await fetchMessagePage(session.user.id, initialContact.id, cursorOf(oldest));
+        const older = await openPage(page.messages);
+        collected.unshift(...older);
+        oldest = older[0];
+        more = page.hasMore;
+      }
+      if (!collected.some(m => m.id === id)) {
+        toast.error("Message no longer available");
+        return false;
+      }
+      setMessages(prev => [...collected.filter(o => !prev.some(m => m.id === o.id)), ...prev]);
+      setHasOlder(more);
+    }
+    setHighlightedId(id);
+    setTimeout(() => document.getElementById(`message-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" }), 50);
+    setTimeout(() => setHighlightedId(current => current === id ? null : current), 2000);
+    return true;
+  };
+
+  useEffect(() => {
+    if (loading || syncing || !focusMessageId) return;
+    (async () => {
+      const found = await jumpToMessage(focusMessageId);
+      if (!found) unindexMessages([focusMessageId]);
+      onFocusHandled?.();
+    })();
+  }, [loading, syncing, focusMessageId]);
+
+  useEffect(() => {
+    const missing = [...new Set(messages
+      .map(m => m.meta?.reply_to?.id as string | undefined)
+      .filter((id): id is string => !!id && !messages.some(m => m.id === id) && !(id in replyParents)))];
+    if (missing.length === 0) return;
+
+    (async () => {
+      const { data } = await supabase.from("messages").select("*").in("id", missing);
+      const found = await Promise.all((data || []).map(async row => ({ ...row, ...(await decryptMessageContent(row)) })));
+      setReplyParents(prev => {
+        const next = { ...prev };
+        missing.forEach(id => { next[id] = found.find(f => f.id === id) || null; });
+        return next;
+      });
+    })();
+  }, [messages]);
+
+  const findReplyParent = (id: string) => {
+    const parent = messages.find(m => m.id === id) ?? replyParents[id];
+    return parent?.hidden ? null : parent;
+  };
+
+  const previewOf = (msg: any) =>
+    msg.deleted_at ? "Message deleted"
+      : msg.media_type === "image" ? "Photo"
+      : msg.media_type === "snapshot" ? "Secure Snapshot"
+      : msg.media_type === "video" ? "Video"
+      : msg.media_type === "location" ? (msg.meta?.location?.live_until ? "Live location" : "Location")
+      : msg.media_type === "file" ? msg.meta?.media?.name || "File"
+      : msg.media_type === "voice" ? `Voice note${msg.meta?.media?.duration ? ` (${formatDuration(msg.meta.media.duration)})` : ""}`
+      : msg.decrypted_content;
+
   const subscribeToMessages = () => {
     const chatChannel = supabase.channel(`chat-${initialContact.id}`);
     
@@ -250,27 +843,24 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
         if ((payload.new.receiver_id === session.user.id && payload.new.sender_id === initialContact.id) ||
             (payload.new.sender_id === session.user.id && payload.new.receiver_id === initialContact.id)) {
           
-          const decryptedContent = await decryptMessageContent(payload.new);
-          const msg = { ...payload.new, decrypted_content: decryptedContent };
+          const opened = await decryptMessageContent(payload.new);
+          const msg = { ...payload.new, ...opened };
           
           setMessages(prev => {
             if (prev.find(m => m.id === msg.id)) return prev;
             return [...prev, msg];
           });
+          indexMessages([msg]);
+          cacheMessages([msg]);
+          setScheduled(prev => prev.filter(item => item.row.id !== payload.new.id));
 
             if (payload.new.receiver_id === session.user.id) {
-              const now = new Date();
-              const update: any = { is_delivered: true, delivered_at: now.toISOString(), is_viewed: true, viewed_at: now.toISOString() };
-              
-              if (payload.new.is_disappearing && payload.new.disappearing_duration) {
-                update.expires_at = new Date(now.getTime() + payload.new.disappearing_duration * 60 * 1000).toISOString();
-              }
-              
-              await supabase.from("messages").update(update).eq("id", payload.new.id);
+              await markViewed([payload.new]);
               
               if (payload.new.media_type === 'snapshot') {
                 toast.info("Snapshot Received");
-                setShowSnapshotView(msg);
+                const url = await loadMedia(msg);
+                if (url) setShowSnapshotView({ ...msg, decrypted_content: url });
               }
             }
         }
@@ -278,12 +868,30 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
       .on("postgres_changes", { event: "UPDATE", schema: "public", table: "messages" }, async (payload) => {
         if ((payload.new.sender_id === session.user.id && payload.new.receiver_id === initialContact.id) ||
             (payload.new.sender_id === initialContact.id && payload.new.receiver_id === session.user.id)) {
-          const decryptedContent = await decryptMessageContent(payload.new);
-          setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...payload.new, decrypted_content: decryptedContent } : m));
+          if (payload.new.deleted_at) forgetMessage(payload.new.id);
+          const opened = await decryptMessageContent(payload.new);
+          setMessages(prev => prev.map(m => m.id === payload.new.id ? { ...payload.new, ...opened, hidden: m.hidden } : m));
+          indexMessages([{ ...payload.new, ...opened }]);
+          cacheMessages([{ ...payload.new, ...opened, hidden: hiddenIdsRef.current.has(payload.new.id) }]);
         }
       })
       .on("postgres_changes", { event: "DELETE", schema: "public", table: "messages" }, (payload) => {
+        forgetMessage(payload.old.id);
+        unindexMessages([payload.old.id]);
         setMessages(prev => prev.filter(m => m.id !== payload.old.id));
+        setReplyParents(prev => payload.old.id in prev ? { ...prev, [payload.old.id]: null } : prev);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "live_locations" }, (payload) => {
+        if (payload.eventType !== "DELETE") receiveLiveLocation(payload.new as LiveLocationRow);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "message_reactions" }, (payload) => {
+        if (payload.eventType === "DELETE") {
+          setReactions(prev => Object.fromEntries(
+            Object.entries(prev).map(([messageId, list]) => [messageId, list.filter(r => r.id !== payload.old.id)])
+          ));
+          return;
+        }
+        receiveReaction(payload.new as ReactionRow);
       })
       .subscribe();
 
@@ -295,7 +903,10 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
         }
       })
       .on('broadcast', { event: 'clear_chat' }, () => {
+        forgetConversationKeys();
         setMessages([]);
+        unindexConversation();
+        uncacheConversation();
         toast.info("Chat cleared by partner");
       })
       .subscribe();
@@ -305,14 +916,34 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
 
   useEffect(() => {
     fetchMessages();
+    loadScheduled();
     const channels = subscribeToMessages();
+    const handleOnline = () => flushOutbox();
+    window.addEventListener("online", handleOnline);
     return () => { 
       channels.forEach(ch => supabase.removeChannel(ch));
+      window.removeEventListener("online", handleOnline);
     };
   }, [initialContact]);
 
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    if (olderSentinelVisible && hasOlder && !loading) fetchOlderMessages();
+  }, [olderSentinelVisible, hasOlder, loading, loadingOlder]);
+
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (container && anchor) {
+      // Older messages were prepended; keep the same bubble under the reader's eye.
+      container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+      scrollAnchorRef.current = null;
+      return;
+    }
+    const lastId = messages[messages.length - 1]?.id ?? null;
+    if (lastId !== lastMessageIdRef.current) {
+      messagesEndRef.current?.scrollIntoView({ behavior: lastMessageIdRef.current ? "smooth" : "auto" });
+      lastMessageIdRef.current = lastId;
+    }
   }, [messages]);
 
   const broadcastTyping = (isTyping: boolean) => {
@@ -336,107 +967,541 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
     }, 3000);
   };
 
-  const sendMessage = async (mediaType: string = "text", mediaBlob: Blob | null = null) => {
-    const textToSend = newMessage.trim();
-    if (!textToSend && !mediaBlob) return;
-
-    try {
-      const { data: partnerProfile } = await supabase
-        .from("profiles")
-        .select("public_key")
-        .eq("id", initialContact.id)
-        .single();
-      
-      if (!partnerProfile?.public_key) {
-        toast.error("Partner node not synchronized. Encryption impossible.");
-        return;
-      }
+  const loadEncryptionKeys = async () => {
+    const { data: partnerProfile } = await supabase
+      .from("profiles")
+      .select("public_key")
+      .eq("id", initialContact.id)
+      .single();
+    
+    if (!partnerProfile?.public_key) {
+      toast.error("Partner node not synchronized. Encryption impossible.");
+      return null;
+    }
 
-      let currentMyPublicKey = myPublicKey;
-      if (!currentMyPublicKey) {
-        const { data: myProfile } = await supabase.from("profiles").select("public_key").eq("id", session.user.id).single();
-        if (myProfile?.public_key) {
-          currentMyPublicKey = await importPublicKey(myProfile.public_key);
-          setMyPublicKey(currentMyPublicKey);
-        }
+    let currentMyPublicKey = myPublicKey;
+    if (!currentMyPublicKey) {
+      const { data: myProfile } = await supabase.from("profiles").select("public_key").eq("id", session.user.id).single();
+      if (myProfile?.public_key) {
+        currentMyPublicKey = await importPublicKey(myProfile.public_key);
+        setMyPublicKey(currentMyPublicKey);
       }
+    }
 
-      if (!currentMyPublicKey) {
-        toast.error("Your encryption keys are not ready.");
-        return;
-      }
+    if (!currentMyPublicKey) {
+      toast.error("Your encryption keys are not ready.");
+      return null;
+    }
+    return { partnerPublicKey: partnerProfile.public_key as string, myPublicKey: currentMyPublicKey };
+  };
 
-      const aesKey = await generateAESKey();
-      let mediaUrl = null;
-      let mediaIv = null;
-
-      if (mediaBlob) {
-        const { encryptedBlob, iv } = await encryptBlob(mediaBlob, aesKey);
-        mediaIv = iv;
-        const fileName = `${mediaType}-${Date.now()}.enc`;
-        const filePath = `chat/${session.user.id}/${fileName}`;
-        const { error: uploadError } = await supabase.storage.from("chat-media").upload(filePath, encryptedBlob);
-        if (uploadError) throw uploadError;
-        const { data: { publicUrl } } = supabase.storage.from("chat-media").getPublicUrl(filePath);
-        mediaUrl = publicUrl;
-      }
+  /** Wraps `aesKey` for every device of both participants and signs the result for message `messageId`. */
+  const sealEnvelope = async (
+    messageId: string,
+    aesKey: CryptoKey,
+    keys: { partnerPublicKey: string; myPublicKey: CryptoKey },
+    body: { iv: string; content: string; media_iv: string | null; meta?: Envelope["meta"] }
+  ) => {
+    const myDeviceId = getDeviceId(session.user.id);
+    const devices = await fetchActiveDeviceKeys([session.user.id, initialContact.id]);
+    const usesSessions = devices.some(d => d.user_id === initialContact.id);
+    let envelope: Envelope;
 
-      const contentToEncrypt = textToSend || " ";
-      const encrypted = await encryptWithAES(contentToEncrypt, aesKey);
-      
-      const partnerKey = await importPublicKey(partnerProfile.public_key);
+    if (usesSessions) {
+      const sealed = await sealMessageKey(myDeviceId, aesKey, devices);
+      envelope = {
+        v: 2,
+        sender_device: myDeviceId,
+        ...body,
+        sessions: sealed.sessions,
+        device_keys: sealed.device_keys
+      };
+    } else {
+      // Partner has no registered device yet, so only the legacy envelope can reach them.
+      const partnerKey = await importPublicKey(keys.partnerPublicKey);
       const encryptedKeyForPartner = await encryptAESKeyForUser(aesKey, partnerKey);
-      const encryptedKeyForMe = await encryptAESKeyForUser(aesKey, currentMyPublicKey);
+      const encryptedKeyForMe = await encryptAESKeyForUser(aesKey, keys.myPublicKey);
+
+      const deviceKeys: Record<string, string> = {};
+      await Promise.all(devices.map(async (device) => {
+        deviceKeys[device.id] = await encryptAESKeyForUser(aesKey, device.key);
+      }));
 
-      const packet = JSON.stringify({ 
-        iv: encrypted.iv, 
-        content: encrypted.content, 
-        media_iv: mediaIv,
+      envelope = { 
+        v: 1,
+        ...body,
         keys: { 
           [session.user.id]: encryptedKeyForMe, 
           [initialContact.id]: encryptedKeyForPartner 
-        } 
-      });
-
-      const messageData: any = { 
-        sender_id: session.user.id, 
-        receiver_id: initialContact.id, 
-        encrypted_content: packet, 
-        media_type: mediaType, 
-        media_url: mediaUrl, 
-        is_viewed: false,
-        is_view_once: autoDeleteMode === "view",
-        is_disappearing: autoDeleteMode.endsWith("_view"),
-        disappearing_duration: autoDeleteMode === "1m_view" ? 1 
-          : autoDeleteMode === "1h_view" ? 60 
-          : autoDeleteMode === "3h_view" ? 180 
-          : null,
-        expires_at: autoDeleteMode === "3h" 
-          ? new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString() 
-          : autoDeleteMode === "1m"
-          ? new Date(Date.now() + 60 * 1000).toISOString()
-          : null
+        },
+        device_keys: deviceKeys,
+        sender_device: myDeviceId
       };
+    }
 
-      const { data, error } = await supabase.from("messages").insert(messageData).select();
-      
-      if (!error && data?.[0]) {
-        let decryptedContent = contentToEncrypt;
-        if (mediaBlob) {
-           decryptedContent = URL.createObjectURL(mediaBlob);
-           setBlobUrls(prev => new Set(prev).add(decryptedContent));
+    const signature = await signPayload(myDeviceId, envelopeSigningPayload(envelope, messageId, session.user.id, initialContact.id));
+    return { packet: encodeEnvelope({ ...envelope, signature }), usesSessions };
+  };
+
+  /** A local bubble for a message that is still in the outbox. */
+  const outboxBubble = (entry: OutboxEntry) => {
+    let decryptedContent = entry.draft.text;
+    if (entry.draft.media) {
+      decryptedContent = URL.createObjectURL(entry.draft.media);
+      setBlobUrls(prev => new Set(prev).add(decryptedContent));
+    }
+    return {
+      id: entry.id,
+      sender_id: session.user.id,
+      receiver_id: initialContact.id,
+      created_at: entry.created_at,
+      media_type: entry.draft.media_type,
+      decrypted_content: decryptedContent,
+      sender_verified: true,
+      meta: entry.draft.meta,
+      outbox_status: entry.status,
+      ...autoDeleteFields(entry.draft.auto_delete_mode)
+    };
+  };
+
+  const setOutboxStatus = (id: string, status: OutboxStatus) => {
+    setMessages(prev => prev.map(m => m.id === id && m.outbox_status ? { ...m, outbox_status: status } : m));
+  };
+
+  /**
+   * Encrypts, uploads and inserts a queued message. The row id is the outbox id,
+   * so an attempt whose response was lost is recognised on retry instead of duplicated.
+   */
+  const transmitOutboxEntry = async (entry: OutboxEntry) => {
+    const { draft } = entry;
+    const keys = await loadEncryptionKeys();
+    if (!keys) throw new Error("Encryption keys unavailable");
+
+    const aesKey = await importAESKey(draft.key);
+    let mediaUrl = null;
+    let mediaIv = null;
+
+    if (draft.media) {
+      const { encryptedBlob, iv } = await encryptBlob(draft.media, aesKey);
+      mediaIv = iv;
+      const filePath = `chat/${session.user.id}/${draft.media_type}-${entry.id}.enc`;
+      setUploadProgress(0);
+      try {
+        mediaUrl = await uploadEncryptedMedia(filePath, encryptedBlob, setUploadProgress);
+      } finally {
+        setUploadProgress(null);
+      }
+    }
+
+    const encrypted = await encryptWithAES(draft.text, aesKey);
+    const sealedMeta = Object.keys(draft.meta).length > 0 ? await sealMessageMeta(draft.meta, aesKey) : undefined;
+
+    const { packet, usesSessions } = await sealEnvelope(entry.id, aesKey, keys, {
+      iv: encrypted.iv,
+      content: encrypted.content,
+      media_iv: mediaIv,
+      meta: sealedMeta
+    });
+
+    const messageData: any = { 
+      id: entry.id,
+      sender_id: session.user.id, 
+      receiver_id: initialContact.id, 
+      encrypted_content: packet, 
+      media_type: draft.media_type, 
+      media_url: mediaUrl, 
+      is_viewed: false,
+      ...autoDeleteFields(draft.auto_delete_mode)
+    };
+
+    let { data, error } = await supabase.from("messages").insert(messageData).select();
+    if (error?.code === "23505") {
+      // An earlier attempt went through; its row is the one to keep.
+      ({ data, error } = await supabase.from("messages").select("*").eq("id", entry.id));
+    }
+    if (error || !data?.[0]) throw error || new Error("Message insert returned no row");
+
+    if (usesSessions) {
+      await rememberKey(data[0], draft.key);
+    }
+    return data[0];
+  };
+
+  const deliverOutboxEntry = async (entry: OutboxEntry) => {
+    if (deliveringRef.current.has(entry.id)) return;
+    deliveringRef.current.add(entry.id);
+    setOutboxStatus(entry.id, "pending");
+    const outbox = await openOutbox(session.user.id).catch(() => null);
+
+    try {
+      const row = await transmitOutboxEntry(entry);
+      await outbox?.remove(entry.id);
+      setMessages(prev => prev.map(m => m.id === entry.id ? { ...m, ...row, outbox_status: undefined } : m));
+      const sent = { ...row, decrypted_content: entry.draft.text, sender_verified: true, meta: entry.draft.meta };
+      indexMessages([sent]);
+      cacheMessages([sent]);
+      if (entry.draft.media) cacheMedia(sent, entry.draft.media);
+    } catch (e) {
+      console.error("Send message error:", e);
+      entry.attempts += 1;
+      entry.status = "failed";
+      await outbox?.setStatus(entry.id, "failed", entry.attempts);
+      setOutboxStatus(entry.id, "failed");
+    } finally {
+      deliveringRef.current.delete(entry.id);
+    }
+  };
+
+  /** Sends whatever is queued for this conversation, e.g. after the connection comes back. */
+  const flushOutbox = async () => {
+    try {
+      const outbox = await openOutbox(session.user.id);
+      const entries = await outbox.list(initialContact.id);
+      for (const entry of entries) {
+        await deliverOutboxEntry(entry);
+      }
+    } catch (err) {
+      console.error("Outbox flush error:", err);
+    }
+  };
+
+  const retryOutboxEntry = async (id: string) => {
+    try {
+      const outbox = await openOutbox(session.user.id);
+      const entry = (await outbox.list(initialContact.id)).find(e => e.id === id);
+      if (entry) await deliverOutboxEntry(entry);
+    } catch (err) {
+      console.error("Outbox retry error:", err);
+      toast.error("Retry failed");
+    }
+  };
+
+  const cancelOutboxEntry = async (id: string) => {
+    try {
+      await (await openOutbox(session.user.id)).remove(id);
+    } catch (err) {
+      console.error("Outbox cancel error:", err);
+    }
+    messageKeysRef.current.delete(id);
+    setMessages(prev => prev.filter(m => m.id !== id));
+  };
+
+  const sendMessage = async (mediaType: string = "text", mediaBlob: Blob | null = null, extra: Pick<MessageMeta, "media" | "location"> = {}) => {
+    const textToSend = newMessage.trim();
+    if (!textToSend && !mediaBlob && !extra.location) return;
+
+    try {
+      const meta: MessageMeta = { ...extra };
+      if (replyingTo) meta.reply_to = { id: replyingTo.id, sender_id: replyingTo.sender_id };
+
+      const aesKey = await generateAESKey();
+      const entry: OutboxEntry = {
+        id: crypto.randomUUID(),
+        contact_id: initialContact.id,
+        created_at: new Date().toISOString(),
+        status: "pending",
+        attempts: 0,
+        draft: {
+          text: textToSend || " ",
+          media_type: mediaType,
+          media: mediaBlob ?? undefined,
+          meta,
+          auto_delete_mode: autoDeleteMode,
+          key: await exportKey(aesKey)
         }
-        const sentMsg = { ...data[0], decrypted_content: decryptedContent };
-        setMessages(prev => [...prev, sentMsg]);
-        setNewMessage("");
-        setShowOptions(false);
+      };
+
+      messageKeysRef.current.set(entry.id, aesKey);
+      setMessages(prev => [...prev, outboxBubble(entry)]);
+      setNewMessage("");
+      setReplyingTo(null);
+      setShowOptions(false);
+
+      try {
+        await (await openOutbox(session.user.id)).put(entry);
+      } catch (err) {
+        // Without IndexedDB the message is still sent, it just won't survive a reload while queued.
+        console.error("Outbox write error:", err);
       }
+      await deliverOutboxEntry(entry);
     } catch (e) { 
       console.error("Send message error:", e);
       toast.error("Signal encryption failed"); 
     }
   };
 
+  const bySendTime = (a: ScheduledItem, b: ScheduledItem) =>
+    new Date(a.row.send_at).getTime() - new Date(b.row.send_at).getTime();
+
+  const loadScheduled = async () => {
+    try {
+      const rows = await fetchScheduledMessages(session.user.id, initialContact.id);
+      setScheduled(await Promise.all(rows.map(async row => ({ row, text: (await decryptMessageContent(row)).decrypted_content }))));
+    } catch (err) {
+      console.error("Fetch scheduled messages error:", err);
+    }
+  };
+
+  /** Seals the composer's text now and hands it to the server to release at `scheduleAt`. */
+  const scheduleCurrentMessage = async () => {
+    const text = newMessage.trim();
+    if (!text || !scheduleAt) return;
+    const sendAt = new Date(scheduleAt);
+    if (!isValidSendTime(sendAt)) {
+      toast.error(`Pick a time at least ${SCHEDULE_MIN_LEAD_MINUTES} minute from now`);
+      return;
+    }
+
+    try {
+      const keys = await loadEncryptionKeys();
+      if (!keys) return;
+
+      const meta: MessageMeta = {};
+      if (replyingTo) meta.reply_to = { id: replyingTo.id, sender_id: replyingTo.sender_id };
+
+      const id = crypto.randomUUID();
+      const aesKey = await generateAESKey();
+      const encrypted = await encryptWithAES(text, aesKey);
+      const sealedMeta = Object.keys(meta).length > 0 ? await sealMessageMeta(meta, aesKey) : undefined;
+      const { packet, usesSessions } = await sealEnvelope(id, aesKey, keys, {
+        iv: encrypted.iv,
+        content: encrypted.content,
+        media_iv: null,
+        meta: sealedMeta
+      });
+
+      if (usesSessions) {
+        await rememberKey({ id, created_at: sendAt.toISOString() }, await exportKey(aesKey));
+      }
+      const row = await scheduleMessage({
+        id,
+        receiver_id: initialContact.id,
+        encrypted_content: packet,
+        auto_delete_mode: autoDeleteMode,
+        send_at: sendAt.toISOString()
+      });
+
+      messageKeysRef.current.set(id, aesKey);
+      setScheduled(prev => [...prev, { row, text }].sort(bySendTime));
+      setNewMessage("");
+      setReplyingTo(null);
+      setScheduleAt(null);
+      toast.success(`Scheduled for ${sendAt.toLocaleString()}`);
+    } catch (e) {
+      console.error("Schedule message error:", e);
+      toast.error("Could not schedule message");
+    }
+  };
+
+  const dropReleased = (item: ScheduledItem) => {
+    toast.error(new ScheduledMessageReleasedError().message);
+    setScheduled(prev => prev.filter(s => s.row.id !== item.row.id));
+  };
+
+  const saveScheduled = async (item: ScheduledItem, text: string, sendAt: Date) => {
+    if (!isValidSendTime(sendAt)) {
+      toast.error(`Pick a time at least ${SCHEDULE_MIN_LEAD_MINUTES} minute from now`);
+      return false;
+    }
+    const aesKey = messageKeysRef.current.get(item.row.id);
+    if (!aesKey) {
+      toast.error("This message cannot be edited on this device");
+      return false;
+    }
+
+    try {
+      const keys = await loadEncryptionKeys();
+      if (!keys) return false;
+
+      const previous = decodeEnvelope(item.row.encrypted_content);
+      const encrypted = await encryptWithAES(text, aesKey);
+      const { packet, usesSessions } = await sealEnvelope(item.row.id, aesKey, keys, {
+        iv: encrypted.iv,
+        content: encrypted.content,
+        media_iv: null,
+        meta: previous.meta
+      });
+
+      if (usesSessions) {
+        await rememberKey({ id: item.row.id, created_at: sendAt.toISOString() }, await exportKey(aesKey));
+      }
+      const row = await updateScheduledMessage(item.row.id, { encrypted_content: packet, send_at: sendAt.toISOString() });
+      setScheduled(prev => prev.map(s => s.row.id === row.id ? { row, text } : s).sort(bySendTime));
+      return true;
+    } catch (e) {
+      if (e instanceof ScheduledMessageReleasedError) {
+        dropReleased(item);
+      } else {
+        console.error("Edit scheduled message error:", e);
+        toast.error("Could not update scheduled message");
+      }
+      return false;
+    }
+  };
+
+  const cancelScheduled = async (item: ScheduledItem) => {
+    try {
+      await cancelScheduledMessage(item.row.id);
+      messageKeysRef.current.delete(item.row.id);
+      setScheduled(prev => prev.filter(s => s.row.id !== item.row.id));
+      return true;
+    } catch (e) {
+      if (e instanceof ScheduledMessageReleasedError) {
+        dropReleased(item);
+      } else {
+        console.error("Cancel scheduled message error:", e);
+        toast.error("Could not cancel scheduled message");
+      }
+      return false;
+    }
+  };
+
+  const voiceRecorder = useVoiceRecorder((note) => {
+    sendMessage("voice", note.blob, {
+      media: {
+        mime: note.mime,
+        duration: Math.round(note.duration * 10) / 10,
+        waveform: note.waveform
+      }
+    });
+  });
+
+  const longPress = useLongPress();
+
+  /** Right click, or press and hold on touch screens: reactions and actions, or removal for a deleted placeholder. */
+  const openMessageMenu = (msg: any) => {
+    if (msg.outbox_status) return;
+    if (msg.deleted_at) setDeletingMessage(msg);
+    else setReactionPickerFor(msg.id);
+  };
+
+  const startEditing = (msg: any) => {
+    setReactionPickerFor(null);
+    setReplyingTo(null);
+    setScheduleAt(null);
+    setEditingMessage(msg);
+    setNewMessage(msg.decrypted_content);
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage("");
+  };
+
+  const saveEdit = async () => {
+    const target = editingMessage;
+    const text = newMessage.trim();
+    if (!target || !text) return;
+    if (text === target.decrypted_content) {
+      cancelEditing();
+      return;
+    }
+    if (!canEditMessage(target, session.user.id)) {
+      toast.error(`Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes`);
+      cancelEditing();
+      return;
+    }
+
+    const aesKey = messageKeysRef.current.get(target.id);
+    if (!aesKey) {
+      toast.error("This message cannot be edited on this device");
+      return;
+    }
+
+    try {
+      const keys = await loadEncryptionKeys();
+      if (!keys) return;
+
+      // The message key stays the same so reactions and earlier versions remain readable.
+      const previous = decodeEnvelope(target.encrypted_content);
+      const encrypted = await encryptWithAES(text, aesKey);
+      const { packet, usesSessions } = await sealEnvelope(target.id, aesKey, keys, {
+        iv: encrypted.iv,
+        content: encrypted.content,
+        media_iv: previous.media_iv ?? null,
+        meta: previous.meta
+      });
+
+      const editedAt = await submitEdit(target.id, packet);
+
+      if (usesSessions) {
+        await rememberKey(target, await exportKey(aesKey));
+      }
+      setMessages(prev => prev.map(m => m.id === target.id ? { ...m, encrypted_content: packet, edited_at: editedAt, decrypted_content: text } : m));
+      indexMessages([{ ...target, decrypted_content: text }]);
+      cacheMessages([{ ...target, encrypted_content: packet, edited_at: editedAt, decrypted_content: text }]);
+      cancelEditing();
+    } catch (e) {
+      console.error("Edit message error:", e);
+      toast.error("Signal encryption failed");
+    }
+  };
+
+  /** Drops the key, cached copy and reactions of a message whose content is gone. */
+  const forgetMessage = (id: string) => {
+    messageKeysRef.current.delete(id);
+    forgetKeys([id]);
+    uncacheMessages([id]);
+    setReactions(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setLiveLocations(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const closeComposerFor = (msg: any) => {
+    if (editingMessage?.id === msg.id) cancelEditing();
+    if (replyingTo?.id === msg.id) setReplyingTo(null);
+  };
+
+  const deleteForMe = async (msg: any) => {
+    setDeletingMessage(null);
+    try {
+      await hideMessageForMe(session.user.id, msg.id);
+      hiddenIdsRef.current.add(msg.id);
+      unindexMessages([msg.id]);
+      uncacheMessages([msg.id]);
+      closeComposerFor(msg);
+      setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, hidden: true } : m));
+    } catch (err) {
+      console.error("Delete for me error:", err);
+      toast.error("Failed to delete message");
+    }
+  };
+
+  const deleteForEveryone = async (msg: any) => {
+    setDeletingMessage(null);
+    try {
+      const deletedAt = await deleteMessageForEveryone(msg.id);
+      unindexMessages([msg.id]);
+      closeComposerFor(msg);
+      forgetMessage(msg.id);
+      setMessages(prev => prev.map(m => m.id === msg.id
+        ? { ...m, encrypted_content: null, media_url: null, edited_at: null, deleted_at: deletedAt, decrypted_content: "", media_pending: false }
+        : m));
+    } catch (err) {
+      console.error("Delete for everyone error:", err);
+      toast.error("Failed to delete message");
+    }
+  };
+
+  const openEditHistory = async (msg: any) => {
+    const aesKey = messageKeysRef.current.get(msg.id);
+    if (!aesKey) return;
+    setEditHistory({ msg, versions: null });
+    try {
+      const versions = await fetchEditHistory(msg.id, aesKey);
+      setEditHistory(current => current?.msg.id === msg.id ? { msg, versions } : current);
+    } catch (e) {
+      console.error("Edit history error:", e);
+      toast.error("Could not load edit history");
+      setEditHistory(null);
+    }
+  };
+
   const startCamera = async () => {
     try {
       if (stream) stream.getTracks().forEach(track => track.stop());
@@ -460,21 +1525,107 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
     }, 'image/jpeg');
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: "image" | "video") => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: "image" | "video" | "file") => {
     const file = e.target.files?.[0];
+    e.target.value = "";
     if (!file) return;
+    if (type === "video") {
+      if (!file.type.startsWith("video/")) {
+        toast.error("Unsupported video format");
+        return;
+      }
+      if (file.size > VIDEO_MAX_BYTES) {
+        toast.error(`Videos can be at most ${Math.round(VIDEO_MAX_BYTES / 1024 / 1024)} MB`);
+        return;
+      }
+      const preview = await createVideoPreview(file);
+      await sendMessage("video", file, { media: { mime: file.type, size: file.size, ...preview } });
+      return;
+    }
+    if (type === "file") {
+      if (file.size > ATTACHMENT_MAX_BYTES) {
+        toast.error(`Files can be at most ${Math.round(ATTACHMENT_MAX_BYTES / 1024 / 1024)} MB`);
+        return;
+      }
+      await sendMessage("file", file, {
+        media: {
+          mime: file.type || "application/octet-stream",
+          size: file.size,
+          name: file.name.slice(0, 255),
+          sha256: await sha256Hex(file)
+        }
+      });
+      return;
+    }
     await sendMessage(type, file);
   };
 
+  const downloadAttachment = async (msg: any) => {
+    try {
+      const url = await loadMedia(msg);
+      if (!url?.startsWith("blob:")) throw new Error("Attachment could not be decrypted");
+      const blob = await (await fetch(url)).blob();
+      await verifyAttachment(blob, msg.meta?.media?.sha256);
+      saveBlob(blob, msg.meta?.media?.name);
+    } catch (e) {
+      console.error(`Attachment ${msg.id} was not saved:`, e);
+      toast.error(e instanceof AttachmentIntegrityError ? "Integrity check failed. The file was not saved." : "Download failed");
+      throw e;
+    }
+  };
+
+  const liveLocationSharing = useLiveLocationSharing({
+    userId: session.user.id,
+    messages,
+    latest: liveLocations,
+    keyFor: (messageId) => messageKeysRef.current.get(messageId),
+    onFix: (messageId, fix) => setLiveLocations(prev => ({ ...prev, [messageId]: fix }))
+  });
+
+  const shareLocation = async (liveMinutes: number | null) => {
+    setShowLocationOptions(false);
+    const position = await getCurrentPosition({ enableHighAccuracy: true, timeout: 10000 });
+    if (position.isFallback) {
+      if (liveMinutes) {
+        toast.error("Precise location is unavailable, so live sharing cannot start");
+        return;
+      }
+      toast.info("Sharing an approximate location");
+    }
+    await sendMessage("location", null, {
+      location: {
+        latitude: position.latitude,
+        longitude: position.longitude,
+        accuracy: position.accuracy,
+        live_until: liveMinutes ? new Date(Date.now() + liveMinutes * 60 * 1000).toISOString() : undefined
+      }
+    });
+  };
+
+  const stopSharingLocation = async (msg: any) => {
+    try {
+      await liveLocationSharing.stopSharing(msg);
+      toast.success("Stopped sharing location");
+    } catch (e) {
+      console.error("Stop sharing location error:", e);
+      toast.error("Could not stop sharing");
+    }
+  };
+
   const openSnapshot = async (message: any) => {
     if (message.receiver_id === session.user.id && (message.view_count || 0) >= 2) { 
       toast.error("Signal purged"); 
       return; 
     }
-    setShowSnapshotView(message);
+    const url = await loadMedia(message);
+    if (!url) return;
+    setShowSnapshotView({ ...message, decrypted_content: url });
     if (message.receiver_id === session.user.id) {
-      const newViews = (message.view_count || 0) + 1;
-      await supabase.from("messages").update({ view_count: newViews, is_viewed: newViews >= 2 }).eq("id", message.id);
+      try {
+        await markMessages([message.id], "snapshot_view");
+      } catch (err) {
+        console.error("Snapshot view error:", err);
+      }
     }
   };
 
@@ -493,6 +1644,11 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
               </div>
           </div>
           <div className="flex items-center gap-2">
+            {keyTrust && (
+              <Button variant="ghost" size="icon" onClick={() => setShowSafetyNumber(true)} className={`rounded-xl hover:bg-white/5 ${keyTrust.status === "verified" ? "text-emerald-400" : keyTrust.status === "changed" ? "text-red-400" : "text-white/20 hover:text-white"}`}>
+                {keyTrust.status === "changed" ? <AlertTriangle className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+              </Button>
+            )}
             <Button variant="ghost" size="icon" onClick={() => onInitiateCall(initialContact, "voice")} className="text-white/20 hover:text-white hover:bg-white/5 rounded-xl"><Phone className="w-4 h-4" /></Button>
             <Button variant="ghost" size="icon" onClick={() => onInitiateCall(initialContact, "video")} className="text-white/20 hover:text-white hover:bg-white/5 rounded-xl"><Video className="w-4 h-4" /></Button>
             <div className="relative">
@@ -523,47 +1679,162 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
           </div>
       </header>
 
-      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+      {keyTrust?.status === "changed" && (
+        <button onClick={() => setShowSafetyNumber(true)} className="w-full px-6 py-3 bg-red-500/10 border-b border-red-500/20 flex items-center gap-3 text-left z-10 shrink-0 hover:bg-red-500/15 transition-all">
+          <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+          <p className="text-[10px] font-black uppercase tracking-widest text-red-300">
+            {initialContact.username}'s security key changed. Tap to verify the new safety number before sharing anything sensitive.
+          </p>
+        </button>
+      )}
+
+      <div ref={scrollContainerRef} className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
         {loading ? (
           <div className="flex items-center justify-center h-full">
             <div className="animate-spin border-2 border-indigo-500 border-t-transparent rounded-full w-8 h-8" />
           </div>
-        ) : messages.length === 0 ? (
+        ) : !messages.some(m => !m.hidden) && !hasOlder ? (
           <div className="flex flex-col items-center justify-center h-full opacity-20 text-center">
             <ShieldCheck className="w-12 h-12 mb-4" />
             <p className="text-[10px] font-black uppercase tracking-[0.4em]">End-to-End Encrypted</p>
             <p className="text-[8px] font-bold uppercase tracking-[0.2em] mt-2">Matrix signals established</p>
           </div>
         ) : (
-          messages.map((msg) => {
+          <>
+          {hasOlder && (
+            <div ref={olderSentinelRef} className="flex justify-center py-2">
+              {loadingOlder && <div className="animate-spin border-2 border-indigo-500 border-t-transparent rounded-full w-5 h-5" />}
+            </div>
+          )}
+          {messages.filter(m => !m.hidden).map((msg) => {
             const isMe = msg.sender_id === session.user.id;
+            const receipt = receiptStatus(msg, receiptPrefs);
+            const replyTo = msg.meta?.reply_to;
+            const parent = replyTo ? findReplyParent(replyTo.id) : undefined;
             return (
-              <motion.div key={msg.id} initial={{ opacity: 0, x: isMe ? 20 : -20 }} animate={{ opacity: 1, x: 0 }} className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
-                <div className={`max-w-[80%] flex flex-col ${isMe ? "items-end" : "items-start"} relative`}>
-                  {msg.media_type === 'snapshot' ? (
+              <motion.div key={msg.id} id={`message-${msg.id}`} initial={{ opacity: 0, x: isMe ? 20 : -20 }} animate={{ opacity: 1, x: 0 }} className={`flex ${isMe ? "justify-end" : "justify-start"} rounded-[2rem] transition-colors ${highlightedId === msg.id ? "bg-indigo-500/10" : ""}`}>
+                <motion.div
+                  drag="x"
+                  dragConstraints={{ left: 0, right: 0 }}
+                  dragElastic={{ left: 0, right: 0.4 }}
+                  dragSnapToOrigin
+                  onDragEnd={(_, info) => { if (info.offset.x > 60 && !msg.deleted_at && !msg.outbox_status) setReplyingTo(msg); }}
+                  {...longPress(() => openMessageMenu(msg))}
+                  onContextMenu={(e) => { e.preventDefault(); openMessageMenu(msg); }}
+                  className={`max-w-[80%] flex flex-col ${isMe ? "items-end" : "items-start"} relative [-webkit-touch-callout:none]`}
+                >
+                  <AnimatePresence>{reactionPickerFor === msg.id && (
+                    <ReactionPicker
+                      current={reactions[msg.id]?.find(r => r.user_id === session.user.id)?.kind ?? null}
+                      alignRight={isMe}
+                      onPick={(kind) => toggleReaction(msg, kind)}
+                      onReply={() => { setReactionPickerFor(null); setEditingMessage(null); setReplyingTo(msg); }}
+                      onEdit={canEditMessage(msg, session.user.id) ? () => startEditing(msg) : undefined}
+                      onDelete={() => { setReactionPickerFor(null); setDeletingMessage(msg); }}
+                      onClose={() => setReactionPickerFor(null)}
+                    />
+                  )}</AnimatePresence>
+                  {replyTo && (
+                    <button
+                      onClick={() => parent && jumpToMessage(parent.id)}
+                      disabled={!parent}
+                      className="mb-1 max-w-full px-4 py-2 rounded-2xl border-l-2 border-indigo-500 bg-white/[0.04] text-left hover:bg-white/[0.06] transition-all disabled:cursor-default"
+                    >
+                      <p className="text-[8px] font-black uppercase tracking-widest text-indigo-300">{replyTo.sender_id === session.user.id ? "You" : initialContact.username}</p>
+                      <p className={`text-[11px] truncate ${parent ? "text-white/50" : "text-white/30 italic"}`}>
+                        {parent === undefined ? "Loading..." : parent === null ? "Message no longer available" : previewOf(parent)}
+                      </p>
+                    </button>
+                  )}
+                  {msg.deleted_at ? (
+                    <div className="px-5 py-3 rounded-[2rem] border border-dashed border-white/10 flex items-center gap-2 text-white/30">
+                      <Trash2 className="w-3.5 h-3.5" />
+                      <span className="text-[11px] italic">{isMe ? "You deleted this message" : "This message was deleted"}</span>
+                    </div>
+                  ) : msg.media_type === 'snapshot' ? (
                     <button onClick={() => openSnapshot(msg)} className="p-4 rounded-[2rem] border bg-purple-600/10 border-purple-500/30 flex items-center gap-3 hover:bg-purple-600/20 transition-all">
                       <Camera className="w-5 h-5 text-purple-400" />
                       <span className="text-[10px] font-black uppercase text-white">Secure Snapshot</span>
                     </button>
+                  ) : msg.media_type === 'location' && msg.meta?.location ? (
+                    <LocationBubble
+                      location={msg.meta.location}
+                      latest={liveLocations[msg.id]}
+                      isMe={isMe}
+                      onStop={() => stopSharingLocation(msg)}
+                    />
+                  ) : msg.media_type === 'file' ? (
+                    <FileAttachment
+                      name={msg.meta?.media?.name}
+                      size={msg.meta?.media?.size}
+                      mime={msg.meta?.media?.mime}
+                      isMe={isMe}
+                      onDownload={() => downloadAttachment(msg)}
+                    />
+                  ) : msg.media_type === 'video' ? (
+                    <EncryptedVideo
+                      src={msg.media_pending || msg.media_error ? null : msg.decrypted_content}
+                      thumbnail={msg.meta?.media?.thumbnail}
+                      duration={msg.meta?.media?.duration}
+                      onRequest={() => loadMedia(msg)}
+                    />
+                  ) : msg.media_type === 'voice' ? (
+                    <VoiceNote
+                      src={msg.media_pending || msg.media_error ? null : msg.decrypted_content}
+                      waveform={msg.meta?.media?.waveform}
+                      duration={msg.meta?.media?.duration}
+                      isMe={isMe}
+                      onVisible={() => loadMedia(msg)}
+                    />
                   ) : msg.media_type === 'image' ? (
-                    <img src={msg.decrypted_content} alt="" className="rounded-[2rem] border border-white/10 max-h-80 shadow-2xl" />
+                    <EncryptedImage src={msg.media_pending || msg.media_error ? null : msg.decrypted_content} failed={msg.media_error} onVisible={() => loadMedia(msg)} className="rounded-[2rem] border border-white/10 max-h-80 shadow-2xl" />
                   ) : (
                     <div className={`p-5 rounded-[2rem] text-sm font-medium leading-relaxed ${isMe ? "bg-indigo-600 text-white shadow-xl shadow-indigo-600/10" : "bg-white/[0.03] border border-white/5 text-white/90"}`}>
                         {msg.decrypted_content || "[Signal Clear]"}
                     </div>
                   )}
+                  <ReactionChips reactions={reactions[msg.id] || []} myId={session.user.id} onToggle={(kind) => toggleReaction(msg, kind)} />
                   <div className="flex items-center gap-2 mt-2 px-2">
                     <span className="text-[7px] font-black uppercase tracking-widest text-white/10">{new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                    {isMe && (
-                      <div className="flex items-center">
-                        {msg.is_viewed ? (<CheckCheck className="w-2.5 h-2.5 text-blue-500" />) : (<CheckCheck className="w-2.5 h-2.5 text-white/20" />)}
+                    {msg.edited_at && (
+                      <button onClick={() => openEditHistory(msg)} className="text-[7px] font-black uppercase tracking-widest text-white/30 hover:text-white/60 transition-colors">
+                        Edited
+                      </button>
+                    )}
+                    {msg.sender_verified === false && (
+                      <span title="This message carries no valid signature from the sender's registered devices" className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-amber-400/80">
+                        <ShieldAlert className="w-2.5 h-2.5" />
+                        Unverified sender
+                      </span>
+                    )}
+                    {isMe && msg.outbox_status === "failed" ? (
+                      <div className="flex items-center gap-2">
+                        <span className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-red-400">
+                          <AlertCircle className="w-2.5 h-2.5" />
+                          Not sent
+                        </span>
+                        <button onClick={() => retryOutboxEntry(msg.id)} className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors">
+                          <RotateCcw className="w-2.5 h-2.5" />
+                          Retry
+                        </button>
+                        <button onClick={() => cancelOutboxEntry(msg.id)} className="text-[7px] font-black uppercase tracking-widest text-white/40 hover:text-red-400 transition-colors">
+                          Cancel
+                        </button>
+                      </div>
+                    ) : isMe && (
+                      <div className="flex items-center" title={msg.outbox_status ? "Sending" : { viewed: "Viewed", delivered: "Delivered", sent: "Sent" }[receipt]}>
+                        {msg.outbox_status ? (<Clock className="w-2.5 h-2.5 text-white/20" />)
+                          : receipt === "viewed" ? (<CheckCheck className="w-2.5 h-2.5 text-blue-500" />)
+                          : receipt === "delivered" ? (<CheckCheck className="w-2.5 h-2.5 text-white/20" />)
+                          : (<Check className="w-2.5 h-2.5 text-white/20" />)}
                       </div>
                     )}
                   </div>
-                </div>
+                </motion.div>
               </motion.div>
             );
-          })
+          })}
+          </>
         )}
         {partnerPresence.isTyping && (
           <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="flex justify-start items-end gap-3 mb-4">
@@ -579,37 +1850,163 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
       </div>
 
       <footer className="p-6 bg-black/40 backdrop-blur-3xl border-t border-white/5 shrink-0">
+          <AnimatePresence>{uploadProgress !== null && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+              <div className="mb-3 px-4 py-2 rounded-2xl bg-white/[0.03] space-y-1.5">
+                <div className="flex justify-between text-[8px] font-black uppercase tracking-widest text-white/40">
+                  <span>Uploading encrypted media</span>
+                  <span>{Math.round(uploadProgress * 100)}%</span>
+                </div>
+                <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                  <div className="h-full bg-indigo-500 transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
+              </div>
+            </motion.div>
+          )}</AnimatePresence>
+          <AnimatePresence>{voiceRecorder.recording && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+              <div className="mb-3 flex items-center gap-3 px-4 py-2 rounded-2xl border-l-2 border-red-500 bg-white/[0.03]">
+                <div className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse shrink-0" />
+                <p className="text-[10px] font-black tracking-widest text-white">{formatDuration(voiceRecorder.elapsed)}</p>
+                <p className="flex-1 text-[8px] font-black uppercase tracking-widest text-white/30 text-right">Release to send · slide away to cancel</p>
+              </div>
+            </motion.div>
+          )}</AnimatePresence>
+          <AnimatePresence>{editingMessage && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+              <div className="mb-3 flex items-center gap-3 px-4 py-2 rounded-2xl border-l-2 border-amber-500 bg-white/[0.03]">
+                <Edit3 className="w-4 h-4 text-amber-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[8px] font-black uppercase tracking-widest text-amber-300">Editing message</p>
+                  <p className="text-[11px] text-white/50 truncate">{editingMessage.decrypted_content}</p>
+                </div>
+                <button onClick={cancelEditing} className="text-white/30 hover:text-white transition-colors">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          )}</AnimatePresence>
+          <AnimatePresence>{replyingTo && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+              <div className="mb-3 flex items-center gap-3 px-4 py-2 rounded-2xl border-l-2 border-indigo-500 bg-white/[0.03]">
+                <Reply className="w-4 h-4 text-indigo-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[8px] font-black uppercase tracking-widest text-indigo-300">
+                    Replying to {replyingTo.sender_id === session.user.id ? "yourself" : initialContact.username}
+                  </p>
+                  <p className="text-[11px] text-white/50 truncate">{previewOf(replyingTo)}</p>
+                </div>
+                <button onClick={() => setReplyingTo(null)} className="text-white/30 hover:text-white transition-colors">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          )}</AnimatePresence>
+          <AnimatePresence>{scheduleAt !== null && (
+            <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: "auto" }} exit={{ opacity: 0, height: 0 }} className="overflow-hidden">
+              <div className="mb-3 flex items-center gap-3 px-4 py-2 rounded-2xl border-l-2 border-sky-500 bg-white/[0.03]">
+                <CalendarClock className="w-4 h-4 text-sky-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[8px] font-black uppercase tracking-widest text-sky-300">Send later</p>
+                  <input
+                    type="datetime-local"
+                    value={scheduleAt}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setScheduleAt(e.target.value)}
+                    className="bg-transparent text-[11px] text-white/70 outline-none [color-scheme:dark]"
+                  />
+                </div>
+                <button onClick={() => setScheduleAt(null)} className="text-white/30 hover:text-white transition-colors">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </motion.div>
+          )}</AnimatePresence>
+          {scheduled.length > 0 && (
+            <button onClick={() => setShowScheduled(true)} className="mb-3 flex items-center gap-2 px-2 text-[8px] font-black uppercase tracking-widest text-sky-300/60 hover:text-sky-300 transition-colors">
+              <CalendarClock className="w-3 h-3" />
+              {scheduled.length} scheduled
+            </button>
+          )}
           <div className="flex items-center gap-3 relative">
-            <Button variant="ghost" size="icon" onClick={() => setShowOptions(!showOptions)} className={`h-12 w-12 rounded-2xl transition-all ${showOptions ? 'bg-indigo-600 text-white rotate-45' : 'bg-white/5 text-white/20'}`}>
+            <Button variant="ghost" size="icon" onClick={() => { setShowOptions(!showOptions); setShowLocationOptions(false); }} className={`h-12 w-12 rounded-2xl transition-all ${showOptions ? 'bg-indigo-600 text-white rotate-45' : 'bg-white/5 text-white/20'}`}>
               <Plus className="w-6 h-6" />
             </Button>
             <input 
               value={newMessage} 
               onChange={(e) => { setNewMessage(e.target.value); handleTyping(); }} 
-              onKeyDown={(e) => e.key === "Enter" && sendMessage()} 
+              onKeyDown={(e) => e.key === "Enter" && (editingMessage ? saveEdit() : scheduleAt !== null ? scheduleCurrentMessage() : sendMessage())} 
               placeholder="Type signal packet..." 
               className="flex-1 bg-white/[0.03] border border-white/10 rounded-[2rem] h-12 px-6 text-sm outline-none focus:border-indigo-500/50 transition-all placeholder:text-white/10" 
             />
-            <Button 
-              onClick={() => sendMessage()} 
-              disabled={!newMessage.trim()} 
-              className="h-12 w-12 rounded-2xl bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-600/20 disabled:opacity-20 transition-all active:scale-95"
-            >
-              <Send className="w-5 h-5" />
-            </Button>
+            {newMessage.trim() || editingMessage ? (
+              <Button 
+                onClick={() => editingMessage ? saveEdit() : scheduleAt !== null ? scheduleCurrentMessage() : sendMessage()} 
+                disabled={!newMessage.trim()} 
+                className="h-12 w-12 rounded-2xl bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-600/20 disabled:opacity-20 transition-all active:scale-95"
+              >
+                {scheduleAt !== null && !editingMessage ? <CalendarClock className="w-5 h-5" /> : <Send className="w-5 h-5" />}
+              </Button>
+            ) : (
+              <Button 
+                onPointerDown={() => voiceRecorder.start()}
+                onPointerUp={() => voiceRecorder.stop(true)}
+                onPointerLeave={() => voiceRecorder.stop(false)}
+                onContextMenu={(e) => e.preventDefault()}
+                className={`h-12 w-12 rounded-2xl shadow-lg transition-all touch-none select-none ${voiceRecorder.recording ? "bg-red-600 hover:bg-red-500 shadow-red-600/20 scale-110" : "bg-indigo-600 hover:bg-indigo-500 shadow-indigo-600/20"}`}
+              >
+                <Mic className="w-5 h-5" />
+              </Button>
+            )}
             <AnimatePresence>{showOptions && (
               <motion.div initial={{ opacity: 0, y: 10, scale: 0.9 }} animate={{ opacity: 1, y: 0, scale: 1 }} exit={{ opacity: 0, y: 10, scale: 0.9 }} className="absolute bottom-20 left-0 w-64 bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-4 shadow-2xl z-50 overflow-hidden">
+                {showLocationOptions ? (
+                  <div className="space-y-2">
+                    <button onClick={() => shareLocation(null)} className="w-full flex items-center gap-3 p-3 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/5 transition-all">
+                      <MapPin className="w-4 h-4 text-indigo-400" />
+                      <span className="text-[9px] font-black uppercase tracking-widest text-white/60">Current location</span>
+                    </button>
+                    {LIVE_LOCATION_DURATIONS.map(({ label, minutes }) => (
+                      <button key={minutes} onClick={() => shareLocation(minutes)} className="w-full flex items-center gap-3 p-3 bg-emerald-500/5 border border-emerald-500/20 rounded-2xl hover:bg-emerald-500/10 transition-all">
+                        <Radio className="w-4 h-4 text-emerald-400" />
+                        <span className="text-[9px] font-black uppercase tracking-widest text-white/60">Live for {label}</span>
+                      </button>
+                    ))}
+                    <button onClick={() => setShowLocationOptions(false)} className="w-full text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-white py-1 transition-colors">
+                      Back
+                    </button>
+                  </div>
+                ) : (
                 <div className="grid grid-cols-2 gap-2">
                   <label className="flex flex-col items-center justify-center p-4 bg-white/[0.02] border border-white/5 rounded-2xl cursor-pointer hover:bg-white/5 transition-all group">
                     <ImageIcon className="w-6 h-6 text-indigo-400 mb-2 group-hover:scale-110 transition-transform" />
                     <span className="text-[8px] font-black uppercase text-white/40">Photo</span>
                     <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, "image")} />
                   </label>
+                  <label className="flex flex-col items-center justify-center p-4 bg-white/[0.02] border border-white/5 rounded-2xl cursor-pointer hover:bg-white/5 transition-all group">
+                    <Video className="w-6 h-6 text-emerald-400 mb-2 group-hover:scale-110 transition-transform" />
+                    <span className="text-[8px] font-black uppercase text-white/40">Video</span>
+                    <input type="file" className="hidden" accept="video/*" onChange={(e) => handleFileUpload(e, "video")} />
+                  </label>
+                  <label className="flex flex-col items-center justify-center p-4 bg-white/[0.02] border border-white/5 rounded-2xl cursor-pointer hover:bg-white/5 transition-all group">
+                    <FileText className="w-6 h-6 text-amber-400 mb-2 group-hover:scale-110 transition-transform" />
+                    <span className="text-[8px] font-black uppercase text-white/40">File</span>
+                    <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, "file")} />
+                  </label>
+                  <button onClick={() => setShowLocationOptions(true)} className="flex flex-col items-center justify-center p-4 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/5 transition-all group">
+                    <MapPin className="w-6 h-6 text-emerald-400 mb-2 group-hover:scale-110 transition-transform" />
+                    <span className="text-[8px] font-black uppercase text-white/40">Location</span>
+                  </button>
                   <button onClick={() => startCamera()} className="flex flex-col items-center justify-center p-4 bg-purple-600/5 border border-purple-500/20 rounded-2xl hover:bg-purple-600/10 transition-all group">
                     <Camera className="w-6 h-6 text-purple-400 mb-2 group-hover:scale-110 transition-transform" />
                     <span className="text-[8px] font-black uppercase text-white/40">Snapshot</span>
                   </button>
+                  <button onClick={() => { if (editingMessage) cancelEditing(); setScheduleAt(toDateTimeLocal(new Date(Date.now() + 60 * 60 * 1000))); setShowOptions(false); }} className="flex flex-col items-center justify-center p-4 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/5 transition-all group">
+                    <CalendarClock className="w-6 h-6 text-sky-400 mb-2 group-hover:scale-110 transition-transform" />
+                    <span className="text-[8px] font-black uppercase text-white/40">Later</span>
+                  </button>
                 </div>
+                )}
               </motion.div>
             )}</AnimatePresence>
           </div>
@@ -629,6 +2026,44 @@ export function Chat({ session, privateKey, initialContact, isPartnerOnline, onB
         </div>
       )}</AnimatePresence>
 
+      <AnimatePresence>{showSafetyNumber && keyTrust && (
+        <SafetyNumber
+          myId={session.user.id}
+          contact={initialContact}
+          safetyNumber={keyTrust.safetyNumber}
+          status={keyTrust.status}
+          onStatusChange={(status) => setKeyTrust(prev => prev && { ...prev, status })}
+          onClose={() => setShowSafetyNumber(false)}
+        />
+      )}</AnimatePresence>
+
+      <AnimatePresence>{deletingMessage && (
+        <DeleteMessageDialog
+          canDeleteForEveryone={deletingMessage.sender_id === session.user.id && !deletingMessage.deleted_at}
+          onDeleteForMe={() => deleteForMe(deletingMessage)}
+          onDeleteForEveryone={() => deleteForEveryone(deletingMessage)}
+          onClose={() => setDeletingMessage(null)}
+        />
+      )}</AnimatePresence>
+
+      <AnimatePresence>{editHistory && (
+        <EditHistory
+          current={editHistory.msg.decrypted_content}
+          editedAt={editHistory.msg.edited_at}
+          versions={editHistory.versions}
+          onClose={() => setEditHistory(null)}
+        />
+      )}</AnimatePresence>
+
+      <AnimatePresence>{showScheduled && (
+        <ScheduledMessages
+          items={scheduled}
+          onSave={saveScheduled}
+          onCancel={cancelScheduled}
+          onClose={() => setShowScheduled(false)}
+        />
+      )}</AnimatePresence>
+
       <AnimatePresence>{showSnapshotView && (
         <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[100] bg-black/95 backdrop-blur-3xl flex items-center justify-center p-4">
           <div className="relative w-full max-w-2xl aspect-[3/4] bg-zinc-900 rounded-[2rem] overflow-hidden border border-white/10 shadow-2xl">
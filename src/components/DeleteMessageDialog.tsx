@@ -0,0 +1,47 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Trash2, EyeOff, X } from "lucide-react";
+
+interface DeleteMessageDialogProps {
+  canDeleteForEveryone: boolean;
+  onDeleteForMe: () => void;
+  onDeleteForEveryone: () => void;
+  onClose: () => void;
+}
+
+export function DeleteMessageDialog({ canDeleteForEveryone, onDeleteForMe, onDeleteForEveryone, onClose }: DeleteMessageDialogProps) {
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="relative w-full max-w-sm bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-8 space-y-6 shadow-2xl">
+        <button onClick={onClose} className="absolute top-5 right-5 w-10 h-10 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+          <X className="w-5 h-5 text-white" />
+        </button>
+
+        <div className="flex items-center gap-3">
+          <Trash2 className="w-5 h-5 text-red-400" />
+          <h3 className="text-lg font-black italic tracking-tighter uppercase text-white">Delete Message</h3>
+        </div>
+
+        <div className="space-y-3">
+          <button onClick={onDeleteForMe} className="w-full flex items-center gap-3 p-4 rounded-2xl bg-white/[0.03] border border-white/5 hover:bg-white/[0.06] transition-all text-left">
+            <EyeOff className="w-4 h-4 text-white/60" />
+            <div>
+              <p className="text-[10px] font-black uppercase tracking-widest text-white">Delete for me</p>
+              <p className="text-[9px] text-white/30">Your partner will still see it</p>
+            </div>
+          </button>
+          {canDeleteForEveryone && (
+            <button onClick={onDeleteForEveryone} className="w-full flex items-center gap-3 p-4 rounded-2xl bg-red-500/10 border border-red-500/20 hover:bg-red-500/20 transition-all text-left">
+              <Trash2 className="w-4 h-4 text-red-400" />
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-red-300">Delete for everyone</p>
+                <p className="text-[9px] text-white/30">Leaves a placeholder in the conversation</p>
+              </div>
+            </button>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { X, History } from "lucide-react";
+import type { MessageVersion } from "@/lib/messageEdits";
+
+interface EditHistoryProps {
+  current: string;
+  editedAt: string;
+  versions: MessageVersion[] | null;
+  onClose: () => void;
+}
+
+export function EditHistory({ current, editedAt, versions, onClose }: EditHistoryProps) {
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="relative w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-8 space-y-6 shadow-2xl max-h-[90dvh] overflow-y-auto custom-scrollbar">
+        <button onClick={onClose} className="absolute top-5 right-5 w-10 h-10 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+          <X className="w-5 h-5 text-white" />
+        </button>
+
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-indigo-400" />
+          <h3 className="text-lg font-black italic tracking-tighter uppercase text-white">Edit History</h3>
+        </div>
+
+        <div className="space-y-3">
+          <div className="p-4 rounded-2xl bg-indigo-600/20 border border-indigo-500/30">
+            <p className="text-[8px] font-black uppercase tracking-widest text-indigo-300 mb-1">
+              Current · {new Date(editedAt).toLocaleString()}
+            </p>
+            <p className="text-sm text-white/90 whitespace-pre-wrap break-words">{current}</p>
+          </div>
+
+          {versions === null ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin border-2 border-indigo-500 border-t-transparent rounded-full w-6 h-6" />
+            </div>
+          ) : (
+            [...versions].reverse().map((version, i) => (
+              <div key={i} className="p-4 rounded-2xl bg-white/[0.03] border border-white/5">
+                <p className="text-[8px] font-black uppercase tracking-widest text-white/30 mb-1">
+                  Replaced {new Date(version.replaced_at).toLocaleString()}
+                </p>
+                <p className="text-sm text-white/60 whitespace-pre-wrap break-words">{version.text}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect } from "react";
+import { useInView } from "react-intersection-observer";
+import { Lock, ImageOff } from "lucide-react";
+
+interface EncryptedImageProps {
+  src: string | null;
+  /** The image could not be downloaded or decrypted. */
+  failed?: boolean;
+  onVisible: () => void;
+  className?: string;
+}
+
+/** Holds a placeholder until the bubble nears the viewport, then asks for the image to be decrypted. */
+export function EncryptedImage({ src, failed, onVisible, className }: EncryptedImageProps) {
+  const { ref, inView } = useInView({ triggerOnce: true, rootMargin: "300px 0px" });
+
+  useEffect(() => {
+    if (inView && !src && !failed) onVisible();
+  }, [inView, src, failed]);
+
+  if (failed) {
+    return (
+      <div className="w-60 h-44 rounded-[2rem] border border-white/10 bg-white/[0.03] flex flex-col items-center justify-center gap-2">
+        <ImageOff className="w-5 h-5 text-white/20" />
+        <span className="text-[8px] font-black uppercase tracking-widest text-white/20">Media unavailable</span>
+      </div>
+    );
+  }
+
+  if (src) {
+    return <img src={src} alt="" className={className} />;
+  }
+
+  return (
+    <div ref={ref} className="w-60 h-44 rounded-[2rem] border border-white/10 bg-white/[0.03] flex items-center justify-center animate-pulse">
+      <Lock className="w-5 h-5 text-white/20" />
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { Play, Lock, Loader2 } from "lucide-react";
+import { formatDuration } from "@/lib/voiceNotes";
+
+interface EncryptedVideoProps {
+  src: string | null;
+  thumbnail?: string;
+  duration?: number;
+  onRequest: () => Promise<string | null>;
+}
+
+/** Shows the encrypted thumbnail and only downloads and decrypts the video once it is played. */
+export function EncryptedVideo({ src, thumbnail, duration, onRequest }: EncryptedVideoProps) {
+  const [requested, setRequested] = useState(false);
+
+  const play = async () => {
+    setRequested(true);
+    const url = await onRequest();
+    if (!url) setRequested(false);
+  };
+
+  if (src && requested) {
+    return <video src={src} controls autoPlay playsInline className="rounded-[2rem] border border-white/10 max-h-80 max-w-full shadow-2xl bg-black" />;
+  }
+
+  return (
+    <button
+      onClick={play}
+      disabled={requested}
+      className="relative w-60 h-44 rounded-[2rem] border border-white/10 bg-white/[0.03] overflow-hidden flex items-center justify-center group"
+    >
+      {thumbnail ? (
+        <img src={thumbnail} alt="" className="absolute inset-0 w-full h-full object-cover" />
+      ) : (
+        <Lock className="absolute top-4 left-4 w-4 h-4 text-white/20" />
+      )}
+      <div className="relative w-12 h-12 rounded-full bg-black/60 backdrop-blur-xl border border-white/20 flex items-center justify-center group-hover:scale-110 transition-transform">
+        {requested ? <Loader2 className="w-5 h-5 text-white animate-spin" /> : <Play className="w-5 h-5 text-white ml-0.5" />}
+      </div>
+      {duration !== undefined && (
+        <span className="absolute bottom-3 right-4 text-[9px] font-black tracking-widest text-white bg-black/60 rounded-full px-2 py-0.5">
+          {formatDuration(duration)}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { FileText, Download, Loader2, ShieldCheck, ShieldAlert } from "lucide-react";
+import { formatFileSize } from "@/lib/attachments";
+
+interface FileAttachmentProps {
+  name?: string;
+  size?: number;
+  mime?: string;
+  isMe: boolean;
+  onDownload: () => Promise<void>;
+}
+
+type DownloadState = "idle" | "working" | "verified" | "failed";
+
+export function FileAttachment({ name, size, mime, isMe, onDownload }: FileAttachmentProps) {
+  const [state, setState] = useState<DownloadState>("idle");
+
+  const download = async () => {
+    setState("working");
+    try {
+      await onDownload();
+      setState("verified");
+    } catch {
+      setState("failed");
+    }
+  };
+
+  return (
+    <div className={`w-64 flex items-center gap-3 p-4 rounded-[2rem] ${isMe ? "bg-indigo-600 shadow-xl shadow-indigo-600/10" : "bg-white/[0.03] border border-white/5"}`}>
+      <div className="w-10 h-10 shrink-0 rounded-2xl bg-white/10 flex items-center justify-center">
+        <FileText className="w-5 h-5 text-white/80" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-bold text-white truncate">{name || "Attachment"}</p>
+        <p className="text-[8px] font-black uppercase tracking-widest text-white/40 truncate">
+          {[formatFileSize(size), mime].filter(Boolean).join(" · ")}
+        </p>
+        {state === "verified" && (
+          <p className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-emerald-300 mt-0.5">
+            <ShieldCheck className="w-2.5 h-2.5" /> Integrity verified
+          </p>
+        )}
+        {state === "failed" && (
+          <p className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-red-300 mt-0.5">
+            <ShieldAlert className="w-2.5 h-2.5" /> Not saved
+          </p>
+        )}
+      </div>
+      <button
+        onClick={download}
+        disabled={state === "working"}
+        className="w-9 h-9 shrink-0 rounded-full bg-white/15 flex items-center justify-center hover:bg-white/25 transition-all disabled:opacity-40"
+      >
+        {state === "working" ? <Loader2 className="w-4 h-4 text-white animate-spin" /> : <Download className="w-4 h-4 text-white" />}
+      </button>
+    </div>
+  );
+}
@@ -18,9 +18,13 @@ import {
   Ban,
   ChevronRight,
   Search,
-  UserMinus
+  UserMinus,
+  UsersRound,
+  Plus
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { GroupAvatar } from "@/components/GroupAvatar";
+import { fetchMyGroups, createGroup, respondToGroupInvite, joinedMembers, GROUP_MAX_MEMBERS, type Group, type GroupMember } from "@/lib/groups";
 
 interface FriendRequest {
   id: string;
@@ -35,17 +39,22 @@ interface FriendRequest {
 interface FriendRequestsProps {
   userId: string;
   onFriendsUpdate?: (friends: string[]) => void;
+  onOpenGroup?: (group: Group) => void;
 }
 
-export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps) {
+export function FriendRequests({ userId, onFriendsUpdate, onOpenGroup }: FriendRequestsProps) {
   const [incomingRequests, setIncomingRequests] = useState<FriendRequest[]>([]);
   const [outgoingRequests, setOutgoingRequests] = useState<FriendRequest[]>([]);
   const [friends, setFriends] = useState<any[]>([]);
   const [blockedUsers, setBlockedUsers] = useState<any[]>([]);
   const [allUsers, setAllUsers] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
-  const [activeTab, setActiveTab] = useState<"requests" | "friends" | "blocked" | "find">("requests");
+  const [activeTab, setActiveTab] = useState<"requests" | "friends" | "groups" | "blocked" | "find">("requests");
   const [loading, setLoading] = useState(true);
+  const [groups, setGroups] = useState<{ group: Group; membership: GroupMember }[]>([]);
+  const [newGroupName, setNewGroupName] = useState("");
+  const [newGroupMembers, setNewGroupMembers] = useState<string[]>([]);
+  const [creatingGroup, setCreatingGroup] = useState(false);
 
   useEffect(() => {
     fetchData();
@@ -61,6 +70,9 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
       .on("postgres_changes", { event: "*", schema: "public", table: "blocked_users" }, () => {
         fetchData();
       })
+      .on("postgres_changes", { event: "*", schema: "public", table: "group_members" }, () => {
+        fetchGroups();
+      })
       .subscribe();
 
     return () => supabase.removeChannel(channel);
@@ -72,7 +84,8 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
       fetchOutgoingRequests(),
       fetchFriends(),
       fetchBlockedUsers(),
-      fetchAllUsers()
+      fetchAllUsers(),
+      fetchGroups()
     ]);
     setLoading(false);
   };
@@ -130,6 +143,46 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
     if (data) setAllUsers(data);
   };
 
+  const fetchGroups = async () => {
+    try {
+      setGroups(await fetchMyGroups(userId));
+    } catch (err) {
+      console.error("Fetch groups error:", err);
+    }
+  };
+
+  const toggleNewGroupMember = (friendId: string) => {
+    setNewGroupMembers(prev => prev.includes(friendId) ? prev.filter(id => id !== friendId) : [...prev, friendId]);
+  };
+
+  const submitNewGroup = async () => {
+    if (!newGroupName.trim() || newGroupMembers.length === 0) return;
+    setCreatingGroup(true);
+    try {
+      await createGroup(userId, newGroupName, newGroupMembers);
+      toast.success("Group created, invitations sent");
+      setNewGroupName("");
+      setNewGroupMembers([]);
+      fetchGroups();
+    } catch (err: any) {
+      console.error("Create group error:", err);
+      toast.error(err?.message || "Failed to create group");
+    } finally {
+      setCreatingGroup(false);
+    }
+  };
+
+  const answerGroupInvite = async (group: Group, accept: boolean) => {
+    try {
+      await respondToGroupInvite(group.id, userId, accept);
+      toast.success(accept ? `Joined ${group.name}` : "Invitation declined");
+      fetchGroups();
+    } catch (err) {
+      console.error("Group invite response error:", err);
+      toast.error(accept ? "Failed to join" : "Failed to decline");
+    }
+  };
+
   const sendFriendRequest = async (receiverId: string) => {
     const existingRequest = await supabase
       .from("friend_requests")
@@ -259,6 +312,9 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
     !blockedUsers.some(b => b.blocked_id === user.id)
   );
 
+  const groupInvites = groups.filter(g => g.membership.status === "invited");
+  const joinedGroups = groups.filter(g => g.membership.status === "joined");
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -284,6 +340,7 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
           {[
             { id: "requests", label: "Requests", icon: Clock, count: incomingRequests.length },
             { id: "friends", label: "Friends", icon: Heart, count: friends.length },
+            { id: "groups", label: "Groups", icon: UsersRound, count: groupInvites.length },
             { id: "blocked", label: "Blocked", icon: Ban, count: blockedUsers.length },
             { id: "find", label: "Find", icon: Search }
           ].map((tab) => (
@@ -454,6 +511,138 @@ export function FriendRequests({ userId, onFriendsUpdate }: FriendRequestsProps)
             </motion.div>
           )}
 
+          {activeTab === "groups" && (
+            <motion.div
+              key="groups"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="space-y-6"
+            >
+              {groupInvites.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-black uppercase tracking-widest text-white/40 mb-4">
+                    Group Invitations ({groupInvites.length})
+                  </h3>
+                  <div className="space-y-3">
+                    {groupInvites.map(({ group, membership }) => {
+                      const inviter = group.members?.find(m => m.user_id === membership.invited_by)?.profile;
+                      return (
+                        <motion.div
+                          key={group.id}
+                          initial={{ opacity: 0, x: -20 }}
+                          animate={{ opacity: 1, x: 0 }}
+                          className="flex items-center gap-4 p-4 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/[0.04] transition-all"
+                        >
+                          <GroupAvatar group={group} className="h-12 w-12" />
+                          <div className="flex-1 min-w-0">
+                            <p className="font-bold truncate">{group.name}</p>
+                            <p className="text-xs text-amber-400 uppercase tracking-wider font-bold truncate">
+                              Invited{inviter ? ` by ${inviter.username}` : ""} · {joinedMembers(group.members).length} members
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              onClick={() => answerGroupInvite(group, true)}
+                              size="icon"
+                              className="h-10 w-10 rounded-xl bg-emerald-600 hover:bg-emerald-700"
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              onClick={() => answerGroupInvite(group, false)}
+                              size="icon"
+                              variant="ghost"
+                              className="h-10 w-10 rounded-xl bg-red-500/10 hover:bg-red-500/20 text-red-400"
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </motion.div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-black uppercase tracking-widest text-white/40 mb-4">
+                  Your Groups ({joinedGroups.length})
+                </h3>
+                {joinedGroups.length === 0 ? (
+                  <div className="text-center py-8 bg-white/[0.02] rounded-2xl border border-white/5">
+                    <UsersRound className="w-12 h-12 text-white/10 mx-auto mb-3" />
+                    <p className="text-white/30 text-sm">No groups yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {joinedGroups.map(({ group }) => (
+                      <motion.button
+                        key={group.id}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        onClick={() => onOpenGroup?.(group)}
+                        className="w-full flex items-center gap-4 p-4 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/[0.04] transition-all text-left group"
+                      >
+                        <GroupAvatar group={group} className="h-12 w-12" />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-bold truncate">{group.name}</p>
+                          <p className="text-xs text-white/40 uppercase tracking-wider">{joinedMembers(group.members).length} members</p>
+                        </div>
+                        <ChevronRight className="w-5 h-5 text-white/10 group-hover:text-indigo-400 transition-all" />
+                      </motion.button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-black uppercase tracking-widest text-white/40 mb-4">New Group</h3>
+                {friends.length === 0 ? (
+                  <div className="text-center py-8 bg-white/[0.02] rounded-2xl border border-white/5">
+                    <Heart className="w-12 h-12 text-white/10 mx-auto mb-3" />
+                    <p className="text-white/30 text-sm">Add friends to start a group</p>
+                  </div>
+                ) : (
+                  <div className="space-y-3 p-4 bg-white/[0.02] border border-white/5 rounded-2xl">
+                    <Input
+                      placeholder="Group name"
+                      value={newGroupName}
+                      maxLength={64}
+                      onChange={(e) => setNewGroupName(e.target.value)}
+                      className="h-12 bg-white/5 border-white/10 rounded-xl"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {friends.map((friend) => {
+                        const picked = newGroupMembers.includes(friend.id);
+                        return (
+                          <button
+                            key={friend.id}
+                            onClick={() => toggleNewGroupMember(friend.id)}
+                            disabled={!picked && newGroupMembers.length + 1 >= GROUP_MAX_MEMBERS}
+                            className={`flex items-center gap-2 pl-1 pr-3 py-1 rounded-full border transition-all disabled:opacity-30 ${
+                              picked ? "bg-indigo-600 border-indigo-500 text-white" : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                            }`}
+                          >
+                            <AvatarDisplay profile={friend} className="h-7 w-7" />
+                            <span className="text-xs font-bold">{friend.username}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                    <Button
+                      onClick={submitNewGroup}
+                      disabled={creatingGroup || !newGroupName.trim() || newGroupMembers.length === 0}
+                      className="w-full h-12 rounded-xl bg-indigo-600 hover:bg-indigo-700 font-bold uppercase text-xs disabled:opacity-30"
+                    >
+                      <Plus className="w-4 h-4 mr-2" /> Create & Invite ({newGroupMembers.length})
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          )}
+
           {activeTab === "blocked" && (
             <motion.div
               key="blocked"
@@ -0,0 +1,38 @@
+"use client";
+
+import { AvatarDisplay } from "@/components/AvatarDisplay";
+import { joinedMembers, type Group } from "@/lib/groups";
+
+const TILES: Record<number, string[]> = {
+  1: ["inset-0"],
+  2: ["inset-y-0 left-0 w-1/2", "inset-y-0 right-0 w-1/2 border-l"],
+  3: ["inset-y-0 left-0 w-1/2", "top-0 right-0 w-1/2 h-1/2 border-l", "bottom-0 right-0 w-1/2 h-1/2 border-l border-t"],
+};
+
+/** Up to three member avatars tiled inside one circle, with a count badge for the rest. */
+export function GroupAvatar({ group, className = "h-12 w-12" }: { group: Group; className?: string }) {
+  const members = joinedMembers(group.members).filter(m => m.profile);
+  const shown = members.slice(0, 3);
+  const rest = members.length - shown.length;
+
+  if (shown.length === 0) {
+    return <AvatarDisplay profile={{ username: group.name }} className={className} />;
+  }
+
+  return (
+    <div className={`${className} relative shrink-0`}>
+      <div className="absolute inset-0 rounded-full overflow-hidden ring-2 ring-white/10 bg-zinc-900">
+        {shown.map((member, i) => (
+          <div key={member.user_id} className={`absolute overflow-hidden border-black ${TILES[shown.length][i]}`}>
+            <AvatarDisplay profile={member.profile} className="w-full h-full !rounded-none !ring-0 !shadow-none" />
+          </div>
+        ))}
+      </div>
+      {rest > 0 && (
+        <span className="absolute -bottom-0.5 -right-0.5 px-1 min-w-[1rem] h-4 rounded-full bg-indigo-600 text-[8px] font-black text-white flex items-center justify-center ring-2 ring-black">
+          +{rest}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { ArrowLeft, Send, Users, X, UserPlus, UserMinus, LogOut, ShieldCheck, ShieldAlert, Crown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AvatarDisplay } from "@/components/AvatarDisplay";
+import { GroupAvatar } from "@/components/GroupAvatar";
+import {
+  fetchGroupMembers, fetchGroupMessages, openGroupMessage, sendGroupMessage, inviteToGroup,
+  removeGroupMember, setGroupMemberRole, joinedMembers, GROUP_MAX_MEMBERS,
+  type Group, type GroupMember, type GroupMessage, type GroupMessageRow
+} from "@/lib/groups";
+
+interface GroupChatProps {
+  session: any;
+  privateKey: CryptoKey;
+  group: Group;
+  friendProfiles: any[];
+  onlineUsers: Set<string>;
+  onBack: () => void;
+  onLeft: () => void;
+}
+
+function describeTyping(names: string[]) {
+  if (names.length === 1) return `${names[0]} is typing`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing`;
+  return `${names[0]} and ${names.length - 1} others are typing`;
+}
+
+export function GroupChat({ session, privateKey, group, friendProfiles, onlineUsers, onBack, onLeft }: GroupChatProps) {
+  const [members, setMembers] = useState<GroupMember[]>(group.members || []);
+  const [messages, setMessages] = useState<GroupMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newMessage, setNewMessage] = useState("");
+  const [sending, setSending] = useState(false);
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+  const [presentIds, setPresentIds] = useState<Set<string>>(new Set());
+  const [showMembers, setShowMembers] = useState(false);
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const signalChannelRef = useRef<any>(null);
+  const isTypingRef = useRef(false);
+  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const typingExpiryRef = useRef(new Map<string, NodeJS.Timeout>());
+
+  const me = members.find(m => m.user_id === session.user.id);
+  const isAdmin = me?.role === "admin";
+  const joined = joinedMembers(members);
+  const profileOf = (userId: string) => members.find(m => m.user_id === userId)?.profile;
+  const onlineCount = joined.filter(m => m.user_id !== session.user.id && onlineUsers.has(m.user_id)).length;
+  const typingNames = typingIds.map(id => profileOf(id)?.username).filter((name): name is string => !!name);
+  const invitable = friendProfiles.filter(f => !members.some(m => m.user_id === f.id));
+
+  const appendMessage = (msg: GroupMessage) => {
+    setMessages(prev => prev.some(m => m.id === msg.id) ? prev : [...prev, msg]);
+  };
+
+  const loadMembers = async () => {
+    try {
+      const list = await fetchGroupMembers(group.id);
+      setMembers(list);
+      if (!list.some(m => m.user_id === session.user.id)) {
+        toast.info(`You are no longer in ${group.name}`);
+        onLeft();
+      }
+      return list;
+    } catch (err) {
+      console.error("Fetch group members error:", err);
+      return null;
+    }
+  };
+
+  const loadMessages = async () => {
+    setLoading(true);
+    try {
+      const list = await loadMembers();
+      // Members only hold keys for what was sent after they joined.
+      const since = list?.find(m => m.user_id === session.user.id)?.joined_at;
+      const rows = await fetchGroupMessages(group.id, since);
+      setMessages(await Promise.all(rows.map(row => openGroupMessage(row, session.user.id, privateKey))));
+    } catch (err) {
+      console.error("Fetch group messages error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setTyping = (userId: string, typing: boolean) => {
+    const timers = typingExpiryRef.current;
+    clearTimeout(timers.get(userId));
+    timers.delete(userId);
+    if (typing) {
+      // A missed "stopped typing" signal should not leave the indicator up forever.
+      timers.set(userId, setTimeout(() => setTyping(userId, false), 6000));
+    }
+    setTypingIds(prev => typing ? (prev.includes(userId) ? prev : [...prev, userId]) : prev.filter(id => id !== userId));
+  };
+
+  useEffect(() => {
+    setMembers(group.members || []);
+    setMessages([]);
+    setTypingIds([]);
+    loadMessages();
+
+    const dataChannel = supabase.channel(`group-${group.id}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "group_messages", filter: `group_id=eq.${group.id}` }, async (payload) => {
+        const row = payload.new as GroupMessageRow;
+        appendMessage(await openGroupMessage(row, session.user.id, privateKey));
+        setTyping(row.sender_id, false);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "group_members", filter: `group_id=eq.${group.id}` }, () => {
+        loadMembers();
+      })
+      .subscribe();
+
+    const signalChannel = supabase.channel(`group-signals-${group.id}`, { config: { presence: { key: session.user.id } } });
+    signalChannel
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        if (payload.userId !== session.user.id) setTyping(payload.userId, payload.isTyping);
+      })
+      .on("presence", { event: "sync" }, () => {
+        setPresentIds(new Set(Object.keys(signalChannel.presenceState())));
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") await signalChannel.track({ user_id: session.user.id });
+      });
+    signalChannelRef.current = signalChannel;
+
+    const typingTimers = typingExpiryRef.current;
+    return () => {
+      supabase.removeChannel(dataChannel);
+      supabase.removeChannel(signalChannel);
+      signalChannelRef.current = null;
+      typingTimers.forEach(clearTimeout);
+      typingTimers.clear();
+    };
+  }, [group.id]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const broadcastTyping = (isTyping: boolean) => {
+    signalChannelRef.current?.send({ type: "broadcast", event: "typing", payload: { userId: session.user.id, isTyping } });
+  };
+
+  const handleTyping = () => {
+    if (!isTypingRef.current) {
+      isTypingRef.current = true;
+      broadcastTyping(true);
+    }
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = setTimeout(() => {
+      isTypingRef.current = false;
+      broadcastTyping(false);
+    }, 3000);
+  };
+
+  const sendMessage = async () => {
+    const text = newMessage.trim();
+    if (!text || sending) return;
+    setSending(true);
+    try {
+      const row = await sendGroupMessage(group.id, session.user.id, privateKey, text);
+      appendMessage({ id: row.id, group_id: row.group_id, sender_id: row.sender_id, created_at: row.created_at, text, sender_verified: true });
+      setNewMessage("");
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      isTypingRef.current = false;
+      broadcastTyping(false);
+    } catch (err) {
+      console.error("Send group message error:", err);
+      toast.error("Signal encryption failed");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const inviteFriend = async (friendId: string) => {
+    try {
+      await inviteToGroup(group.id, session.user.id, [friendId], members.length);
+      toast.success("Invitation sent");
+      loadMembers();
+    } catch (err: any) {
+      console.error("Group invite error:", err);
+      toast.error(err?.message || "Failed to invite");
+    }
+  };
+
+  const removeMember = async (member: GroupMember) => {
+    if (!confirm(`Remove ${member.profile?.username || "this member"} from ${group.name}?`)) return;
+    try {
+      await removeGroupMember(group.id, member.user_id);
+      toast.success("Member removed");
+      loadMembers();
+    } catch (err) {
+      console.error("Remove group member error:", err);
+      toast.error("Failed to remove member");
+    }
+  };
+
+  const leaveGroup = async () => {
+    if (!confirm(`Leave ${group.name}? You will not be able to read new messages.`)) return;
+    try {
+      const others = joined.filter(m => m.user_id !== session.user.id);
+      if (isAdmin && others.length > 0 && !others.some(m => m.role === "admin")) {
+        // The group keeps someone who can manage it.
+        await setGroupMemberRole(group.id, others[0].user_id, "admin");
+      }
+      await removeGroupMember(group.id, session.user.id);
+      toast.success(`Left ${group.name}`);
+      onLeft();
+    } catch (err) {
+      console.error("Leave group error:", err);
+      toast.error("Failed to leave group");
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#030303] relative overflow-hidden">
+      <header className="h-20 border-b border-white/5 bg-black/40 backdrop-blur-3xl flex items-center justify-between px-6 z-20 shrink-0">
+        <div className="flex items-center gap-4 min-w-0">
+          <Button variant="ghost" size="icon" onClick={onBack} className="text-white/20 hover:text-white mr-1 lg:hidden bg-white/5 rounded-xl border border-white/5"><ArrowLeft className="w-6 h-6" /></Button>
+          <GroupAvatar group={{ ...group, members }} className="h-10 w-10" />
+          <div className="min-w-0">
+            <h3 className="text-sm font-black italic tracking-tighter uppercase text-white truncate">{group.name}</h3>
+            {typingNames.length > 0 ? (
+              <p className="text-[8px] font-bold uppercase tracking-widest text-indigo-400 truncate">{describeTyping(typingNames)}…</p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <div className={`w-1.5 h-1.5 rounded-full ${onlineCount > 0 ? 'bg-emerald-500 shadow-[0_0_8px_rgba(16,185,129,0.8)]' : 'bg-white/10'}`} />
+                <p className="text-[8px] font-bold uppercase tracking-widest text-white/40">
+                  {joined.length} members · {onlineCount} online
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={() => setShowMembers(true)} className="text-white/20 hover:text-white hover:bg-white/5 rounded-xl"><Users className="w-4 h-4" /></Button>
+      </header>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="animate-spin border-2 border-indigo-500 border-t-transparent rounded-full w-8 h-8" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full opacity-20 text-center">
+            <ShieldCheck className="w-12 h-12 mb-4" />
+            <p className="text-[10px] font-black uppercase tracking-[0.4em]">End-to-End Encrypted</p>
+            <p className="text-[8px] font-bold uppercase tracking-[0.2em] mt-2">Keys wrapped for every member</p>
+          </div>
+        ) : (
+          messages.map((msg) => {
+            const isMe = msg.sender_id === session.user.id;
+            const sender = profileOf(msg.sender_id);
+            return (
+              <motion.div key={msg.id} initial={{ opacity: 0, x: isMe ? 20 : -20 }} animate={{ opacity: 1, x: 0 }} className={`flex items-end gap-3 ${isMe ? "justify-end" : "justify-start"}`}>
+                {!isMe && <AvatarDisplay profile={sender ?? { username: "?" }} className="h-8 w-8 ring-1 ring-white/10 shrink-0" />}
+                <div className={`max-w-[75%] flex flex-col ${isMe ? "items-end" : "items-start"}`}>
+                  {!isMe && (
+                    <span className="text-[8px] font-black uppercase tracking-widest text-indigo-400/80 mb-1 px-2">{sender?.username || "Former member"}</span>
+                  )}
+                  <div className={`p-5 rounded-[2rem] text-sm font-medium leading-relaxed break-words ${isMe ? "bg-indigo-600 text-white shadow-xl shadow-indigo-600/10" : "bg-white/[0.03] border border-white/5 text-white/90"}`}>
+                    {msg.text}
+                  </div>
+                  <div className="flex items-center gap-2 mt-2 px-2">
+                    <span className="text-[7px] font-black uppercase tracking-widest text-white/10">{new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    {!msg.sender_verified && (
+                      <span title="This message carries no valid signature from the sender's registered devices" className="flex items-center gap-1 text-[7px] font-black uppercase tracking-widest text-amber-400/80">
+                        <ShieldAlert className="w-2.5 h-2.5" />
+                        Unverified sender
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })
+        )}
+        {typingIds.length > 0 && (
+          <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="flex justify-start items-end gap-3 mb-4">
+            <div className="flex -space-x-3">
+              {typingIds.slice(0, 3).map(id => (
+                <AvatarDisplay key={id} profile={profileOf(id) ?? { username: "?" }} className="h-8 w-8 ring-2 ring-black" />
+              ))}
+            </div>
+            <div className="bg-white/[0.03] border border-white/10 rounded-2xl px-4 py-3 flex gap-1.5 items-center shadow-inner">
+              {[0, 1, 2].map((i) => (
+                <motion.div key={i} animate={{ y: [0, -5, 0] }} transition={{ duration: 0.6, repeat: Infinity, delay: i * 0.15 }} className="w-1.5 h-1.5 bg-indigo-500 rounded-full shadow-[0_0_8px_rgba(99,102,241,0.6)]" />
+              ))}
+            </div>
+          </motion.div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <footer className="p-6 bg-black/40 backdrop-blur-3xl border-t border-white/5 shrink-0">
+        <div className="flex items-center gap-3">
+          <input
+            value={newMessage}
+            onChange={(e) => { setNewMessage(e.target.value); handleTyping(); }}
+            onKeyDown={(e) => e.key === "Enter" && sendMessage()}
+            placeholder={`Signal ${group.name}...`}
+            className="flex-1 bg-white/[0.03] border border-white/10 rounded-[2rem] h-12 px-6 text-sm outline-none focus:border-indigo-500/50 transition-all placeholder:text-white/10"
+          />
+          <Button
+            onClick={sendMessage}
+            disabled={!newMessage.trim() || sending}
+            className="h-12 w-12 rounded-2xl bg-indigo-600 hover:bg-indigo-500 shadow-lg shadow-indigo-600/20 disabled:opacity-20 transition-all active:scale-95"
+          >
+            <Send className="w-5 h-5" />
+          </Button>
+        </div>
+      </footer>
+
+      <AnimatePresence>{showMembers && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-center justify-center p-4" onClick={() => setShowMembers(false)}>
+          <div onClick={(e) => e.stopPropagation()} className="relative w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-6 space-y-4 shadow-2xl max-h-[80dvh] flex flex-col">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-black uppercase italic tracking-tighter">{group.name}</h3>
+                <p className="text-[9px] font-bold uppercase tracking-widest text-white/30">{joined.length} of {GROUP_MAX_MEMBERS} members</p>
+              </div>
+              <button onClick={() => setShowMembers(false)} className="w-10 h-10 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+                <X className="w-5 h-5 text-white" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+              {members.map(member => {
+                const online = member.user_id === session.user.id || onlineUsers.has(member.user_id);
+                return (
+                  <div key={member.user_id} className="flex items-center gap-3 p-3 rounded-2xl bg-white/[0.02] border border-white/5">
+                    <div className="relative">
+                      <AvatarDisplay profile={member.profile} className="h-10 w-10" />
+                      {member.status === "joined" && (
+                        <span className={`absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full ring-2 ring-black ${presentIds.has(member.user_id) ? "bg-indigo-500" : online ? "bg-emerald-500" : "bg-white/10"}`} />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold truncate flex items-center gap-1.5">
+                        {member.profile?.username}
+                        {member.user_id === session.user.id && <span className="text-white/30">(you)</span>}
+                        {member.role === "admin" && <Crown className="w-3 h-3 text-amber-400" />}
+                      </p>
+                      <p className="text-[8px] font-bold uppercase tracking-widest text-white/30">
+                        {member.status === "invited" ? "Invited" : presentIds.has(member.user_id) ? "In this chat" : online ? "Online" : "Offline"}
+                      </p>
+                    </div>
+                    {isAdmin && member.user_id !== session.user.id && (
+                      <button onClick={() => removeMember(member)} title="Remove" className="w-8 h-8 rounded-xl flex items-center justify-center text-white/20 hover:text-red-400 hover:bg-red-500/10 transition-all">
+                        <UserMinus className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+
+              {isAdmin && invitable.length > 0 && members.length < GROUP_MAX_MEMBERS && (
+                <>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-white/30 pt-4 px-1">Invite friends</p>
+                  {invitable.map(friend => (
+                    <button key={friend.id} onClick={() => inviteFriend(friend.id)} className="w-full flex items-center gap-3 p-3 rounded-2xl bg-white/[0.02] border border-white/5 hover:bg-white/[0.05] transition-all text-left">
+                      <AvatarDisplay profile={friend} className="h-10 w-10" />
+                      <p className="flex-1 text-xs font-bold truncate">{friend.username}</p>
+                      <UserPlus className="w-4 h-4 text-indigo-400" />
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+
+            <button onClick={leaveGroup} className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-red-500/10 text-red-400 text-[10px] font-black uppercase tracking-widest hover:bg-red-500/20 transition-all">
+              <LogOut className="w-4 h-4" /> Leave group
+            </button>
+          </div>
+        </motion.div>
+      )}</AnimatePresence>
+    </div>
+  );
+}
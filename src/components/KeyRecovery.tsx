@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { KeyRound, ShieldAlert, ArrowRight, Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { supabase } from "@/lib/supabase";
+import { decryptPrivateKeyBackup } from "@/lib/crypto";
+import type { StoredKeyBackup } from "@/lib/keyBackup";
+
+interface KeyRecoveryProps {
+  backup: StoredKeyBackup | null;
+  onRestored: (privateKeyBase64: string) => Promise<void>;
+  onGenerateNew: () => Promise<void>;
+}
+
+export function KeyRecovery({ backup, onRestored, onGenerateNew }: KeyRecoveryProps) {
+  const [stage, setStage] = useState<"restore" | "warning">(backup ? "restore" : "warning");
+  const [passphrase, setPassphrase] = useState("");
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState(false);
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backup || !passphrase) return;
+    setWorking(true);
+    try {
+      const privateKeyBase64 = await decryptPrivateKeyBackup(backup, passphrase);
+      await onRestored(privateKeyBase64);
+      toast.success("Encryption key restored");
+    } catch (err) {
+      console.error("Key restore failed:", err);
+      setError(true);
+      setPassphrase("");
+      setTimeout(() => setError(false), 500);
+      toast.error("Wrong passphrase or corrupted backup");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleGenerateNew = async () => {
+    setWorking(true);
+    try {
+      await onGenerateNew();
+    } catch (err) {
+      console.error("Key generation failed:", err);
+      toast.error("Failed to generate a new key");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-[100dvh] flex-col items-center justify-center bg-[#010101] p-6 text-center relative overflow-hidden">
+      <div className={`absolute top-[-20%] left-[-20%] w-[60%] h-[60%] ${stage === "warning" ? "bg-red-900/15" : "bg-indigo-600/10"} blur-[150px] rounded-full pointer-events-none`} />
+      <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-[0.05] brightness-150 contrast-200 pointer-events-none" />
+
+      <AnimatePresence mode="wait">
+        {stage === "restore" ? (
+          <motion.div
+            key="restore"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="z-10 w-full max-w-md space-y-10"
+          >
+            <div className="flex justify-center">
+              <div className="p-8 bg-white/[0.02] border border-white/10 rounded-[2.5rem] backdrop-blur-3xl shadow-2xl">
+                <KeyRound className="w-12 h-12 text-indigo-500" />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="text-4xl font-black italic tracking-tighter text-white uppercase leading-none">Restore Key</h2>
+              <p className="text-zinc-500 font-medium leading-relaxed tracking-wide text-[10px] uppercase max-w-[300px] mx-auto">
+                This browser has no encryption key. Enter your backup passphrase to restore your account key. It opens older messages sealed to that key; newer messages secured for your other devices stay on those devices.
+              </p>
+              {backup?.updated_at && (
+                <p className="text-[8px] font-black uppercase tracking-[0.3em] text-white/20">
+                  Backup from {new Date(backup.updated_at).toLocaleDateString()}
+                </p>
+              )}
+            </div>
+
+            <form onSubmit={handleRestore} className="space-y-4">
+              <motion.div animate={error ? { x: [-10, 10, -10, 10, 0] } : {}} transition={{ duration: 0.4 }}>
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Backup passphrase"
+                  autoFocus
+                  className={`h-14 bg-white/[0.02] border-white/10 rounded-2xl text-center text-sm font-bold focus:border-indigo-500/50 placeholder:text-white/10 ${error ? "border-red-500/50 text-red-500" : "text-white"}`}
+                />
+              </motion.div>
+              <Button
+                type="submit"
+                disabled={working || !passphrase}
+                className="w-full h-14 rounded-2xl bg-indigo-600 hover:bg-indigo-500 text-white font-black text-xs uppercase tracking-[0.3em]"
+              >
+                {working ? <Loader2 className="w-4 h-4 animate-spin" /> : <span className="flex items-center gap-2">Restore <ArrowRight className="w-4 h-4" /></span>}
+              </Button>
+            </form>
+
+            <button
+              onClick={() => setStage("warning")}
+              className="text-[9px] font-black uppercase tracking-[0.3em] text-white/20 hover:text-red-400 transition-colors"
+            >
+              Forgot passphrase? Generate a new key
+            </button>
+          </motion.div>
+        ) : (
+          <motion.div
+            key="warning"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="z-10 w-full max-w-md space-y-10"
+          >
+            <div className="flex justify-center">
+              <div className="p-8 bg-gradient-to-br from-red-500/10 to-orange-500/10 border border-red-500/20 rounded-[2.5rem] backdrop-blur-3xl shadow-2xl">
+                <ShieldAlert className="w-12 h-12 text-red-500" />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="text-4xl font-black italic tracking-tighter text-white uppercase leading-none">New <span className="text-red-500">Key</span></h2>
+              <div className="p-5 bg-red-500/5 border border-red-500/20 rounded-2xl text-left space-y-3">
+                <p className="text-xs text-red-300/80 leading-relaxed">
+                  Your messages are encrypted for the keys that live on your other devices{backup ? " and in your backup" : ""}. A new key cannot decrypt them.
+                </p>
+                <p className="text-xs text-red-300/80 leading-relaxed">
+                  Every message you sent or received before now will show as unreadable on this browser, and your partners' old messages stay locked until you restore the original key.
+                </p>
+                <p className="text-xs text-red-300/80 leading-relaxed">
+                  This browser will be added as a new device. Your other signed-in devices keep their own keys and are not affected.
+                </p>
+              </div>
+              <label className="flex items-center gap-3 justify-center cursor-pointer">
+                <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} className="accent-red-500" />
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/40">I understand my history will be unreadable</span>
+              </label>
+            </div>
+
+            <div className="space-y-3">
+              <Button
+                onClick={handleGenerateNew}
+                disabled={working || !acknowledged}
+                className="w-full h-14 rounded-2xl bg-red-600 hover:bg-red-500 text-white font-black text-xs uppercase tracking-[0.3em]"
+              >
+                {working ? <Loader2 className="w-4 h-4 animate-spin" /> : "Generate New Key"}
+              </Button>
+              {backup ? (
+                <Button variant="ghost" onClick={() => setStage("restore")} className="w-full h-12 text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">
+                  Back to Restore
+                </Button>
+              ) : (
+                <Button variant="ghost" onClick={() => supabase.auth.signOut()} className="w-full h-12 text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">
+                  <LogOut className="w-4 h-4 mr-2" /> Sign Out
+                </Button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { MapPin, Radio } from "lucide-react";
+import type { MessageMeta } from "@/lib/envelope";
+import { isLiveLocationActive, type LiveLocation } from "@/lib/liveLocation";
+
+const LocationMap = dynamic(() => import("./LocationMap"), {
+  ssr: false,
+  loading: () => <div className="w-full h-full bg-white/[0.03] animate-pulse" />,
+});
+
+interface LocationBubbleProps {
+  location: NonNullable<MessageMeta["location"]>;
+  latest?: LiveLocation;
+  isMe: boolean;
+  onStop: () => void;
+}
+
+export function LocationBubble({ location, latest, isMe, onStop }: LocationBubbleProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const live = isLiveLocationActive(location, latest, now);
+  const position = latest ?? location;
+
+  // Re-render once the sharing window closes so the bubble drops its live state on time.
+  useEffect(() => {
+    if (!live || !location.live_until) return;
+    const timer = setTimeout(() => setNow(Date.now()), new Date(location.live_until).getTime() - Date.now() + 500);
+    return () => clearTimeout(timer);
+  }, [live, location.live_until]);
+
+  const openInMaps = `https://www.openstreetmap.org/?mlat=${position.latitude}&mlon=${position.longitude}#map=16/${position.latitude}/${position.longitude}`;
+
+  return (
+    <div className="w-64 rounded-[2rem] overflow-hidden border border-white/10 bg-white/[0.03] shadow-2xl">
+      <a href={openInMaps} target="_blank" rel="noopener noreferrer" className="block h-40 relative z-0">
+        <LocationMap latitude={position.latitude} longitude={position.longitude} accuracy={position.accuracy} live={live} />
+      </a>
+      <div className="flex items-center gap-2 px-4 py-3">
+        {live ? <Radio className="w-4 h-4 text-emerald-400 animate-pulse shrink-0" /> : <MapPin className="w-4 h-4 text-indigo-400 shrink-0" />}
+        <div className="flex-1 min-w-0">
+          <p className="text-[9px] font-black uppercase tracking-widest text-white">
+            {live ? "Live location" : location.live_until ? "Live location ended" : "Location"}
+          </p>
+          {live && location.live_until && (
+            <p className="text-[8px] font-bold uppercase tracking-widest text-white/30">
+              Until {new Date(location.live_until).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+            </p>
+          )}
+        </div>
+        {live && isMe && (
+          <button onClick={onStop} className="px-3 py-1.5 rounded-xl bg-red-500/10 border border-red-500/30 text-[8px] font-black uppercase tracking-widest text-red-300 hover:bg-red-500/20 transition-all">
+            Stop
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
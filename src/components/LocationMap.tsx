@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect } from "react";
+import { MapContainer, TileLayer, Circle, CircleMarker, useMap } from "react-leaflet";
+
+interface LocationMapProps {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  live: boolean;
+}
+
+function FollowPosition({ latitude, longitude }: { latitude: number; longitude: number }) {
+  const map = useMap();
+  useEffect(() => {
+    map.panTo([latitude, longitude]);
+  }, [map, latitude, longitude]);
+  return null;
+}
+
+/** Leaflet touches `window`, so this is only ever loaded on the client through LocationBubble. */
+export default function LocationMap({ latitude, longitude, accuracy, live }: LocationMapProps) {
+  const color = live ? "#10b981" : "#6366f1";
+  return (
+    <MapContainer
+      center={[latitude, longitude]}
+      zoom={15}
+      zoomControl={false}
+      attributionControl={false}
+      className="w-full h-full"
+    >
+      <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
+      {accuracy !== undefined && accuracy < 5000 && (
+        <Circle center={[latitude, longitude]} radius={accuracy} pathOptions={{ color, weight: 1, fillOpacity: 0.1 }} />
+      )}
+      <CircleMarker center={[latitude, longitude]} radius={8} pathOptions={{ color: "#ffffff", weight: 3, fillColor: color, fillOpacity: 1 }} />
+      <FollowPosition latitude={latitude} longitude={longitude} />
+    </MapContainer>
+  );
+}
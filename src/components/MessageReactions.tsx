@@ -0,0 +1,106 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Heart, ThumbsUp, Smile, Meh, Frown, Reply, Edit3, Trash2 } from "lucide-react";
+import { REACTION_KINDS, type Reaction, type ReactionKind } from "@/lib/reactions";
+
+const REACTION_ICONS: Record<ReactionKind, typeof Heart> = {
+  heart: Heart,
+  thumbs_up: ThumbsUp,
+  smile: Smile,
+  meh: Meh,
+  frown: Frown,
+};
+
+const REACTION_COLORS: Record<ReactionKind, string> = {
+  heart: "text-pink-400",
+  thumbs_up: "text-indigo-400",
+  smile: "text-amber-400",
+  meh: "text-white/60",
+  frown: "text-sky-400",
+};
+
+interface ReactionPickerProps {
+  current: ReactionKind | null;
+  alignRight: boolean;
+  onPick: (kind: ReactionKind) => void;
+  onReply: () => void;
+  onEdit?: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+export function ReactionPicker({ current, alignRight, onPick, onReply, onEdit, onDelete, onClose }: ReactionPickerProps) {
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} onContextMenu={(e) => { e.preventDefault(); onClose(); }} />
+      <motion.div
+        initial={{ opacity: 0, y: 8, scale: 0.9 }}
+        animate={{ opacity: 1, y: 0, scale: 1 }}
+        exit={{ opacity: 0, y: 8, scale: 0.9 }}
+        className={`absolute -top-14 ${alignRight ? "right-0" : "left-0"} z-40 flex items-center gap-1 p-1.5 bg-zinc-900 border border-white/10 rounded-2xl shadow-2xl`}
+      >
+        {REACTION_KINDS.map(kind => {
+          const Icon = REACTION_ICONS[kind];
+          return (
+            <button
+              key={kind}
+              onClick={() => onPick(kind)}
+              className={`w-9 h-9 rounded-xl flex items-center justify-center transition-all hover:bg-white/10 hover:scale-110 ${current === kind ? "bg-white/10" : ""}`}
+            >
+              <Icon className={`w-4 h-4 ${REACTION_COLORS[kind]}`} />
+            </button>
+          );
+        })}
+        <div className="w-px h-6 bg-white/10 mx-1" />
+        <button onClick={onReply} className="w-9 h-9 rounded-xl flex items-center justify-center text-white/60 hover:text-white hover:bg-white/10 transition-all">
+          <Reply className="w-4 h-4" />
+        </button>
+        {onEdit && (
+          <button onClick={onEdit} className="w-9 h-9 rounded-xl flex items-center justify-center text-white/60 hover:text-white hover:bg-white/10 transition-all">
+            <Edit3 className="w-4 h-4" />
+          </button>
+        )}
+        <button onClick={onDelete} className="w-9 h-9 rounded-xl flex items-center justify-center text-red-400/70 hover:text-red-400 hover:bg-white/10 transition-all">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </motion.div>
+    </>
+  );
+}
+
+interface ReactionChipsProps {
+  reactions: Reaction[];
+  myId: string;
+  onToggle: (kind: ReactionKind) => void;
+}
+
+export function ReactionChips({ reactions, myId, onToggle }: ReactionChipsProps) {
+  if (reactions.length === 0) return null;
+
+  const counts = REACTION_KINDS
+    .map(kind => ({
+      kind,
+      count: reactions.filter(r => r.kind === kind).length,
+      mine: reactions.some(r => r.kind === kind && r.user_id === myId),
+    }))
+    .filter(c => c.count > 0);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1 px-1">
+      {counts.map(({ kind, count, mine }) => {
+        const Icon = REACTION_ICONS[kind];
+        return (
+          <button
+            key={kind}
+            onClick={() => onToggle(kind)}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-[9px] font-black transition-all ${mine ? "bg-indigo-500/20 border-indigo-500/40 text-white" : "bg-white/[0.03] border-white/10 text-white/50 hover:bg-white/[0.06]"}`}
+          >
+            <Icon className={`w-3 h-3 ${REACTION_COLORS[kind]}`} />
+            {count > 1 && count}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
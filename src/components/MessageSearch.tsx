@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Search, Lock } from "lucide-react";
+import { AvatarDisplay } from "@/components/AvatarDisplay";
+import { openSearchIndex, type SearchEntry } from "@/lib/searchIndex";
+
+interface MessageSearchProps {
+  userId: string;
+  profiles: any[];
+  onSelect: (contact: any, messageId: string) => void;
+  onClose: () => void;
+}
+
+function Snippet({ text, query }: { text: string; query: string }) {
+  const term = query.trim().split(/\s+/)[0]?.toLowerCase() || "";
+  const at = term ? text.toLowerCase().indexOf(term) : -1;
+  if (at < 0) return <>{text}</>;
+  const start = Math.max(0, at - 30);
+  return (
+    <>
+      {start > 0 && "…"}
+      {text.slice(start, at)}
+      <mark className="bg-indigo-500/40 text-white rounded px-0.5">{text.slice(at, at + term.length)}</mark>
+      {text.slice(at + term.length)}
+    </>
+  );
+}
+
+export function MessageSearch({ userId, profiles, onSelect, onClose }: MessageSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchEntry[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const index = await openSearchIndex(userId);
+        const hits = await index.search(query);
+        if (!cancelled) setResults(hits);
+      } catch (e) {
+        console.error("Message search failed:", e);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, 200);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, userId]);
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-start justify-center p-4 pt-[10dvh]" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="relative w-full max-w-lg bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-6 space-y-4 shadow-2xl max-h-[80dvh] flex flex-col">
+        <div className="flex items-center gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-white/20" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search messages..."
+              className="w-full bg-white/[0.03] border border-white/10 rounded-2xl py-3 pl-12 pr-4 text-sm outline-none focus:border-indigo-500/50 transition-all placeholder:text-white/10"
+            />
+          </div>
+          <button onClick={onClose} className="w-10 h-10 shrink-0 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+            <X className="w-5 h-5 text-white" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+          {searching && results.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin border-2 border-indigo-500 border-t-transparent rounded-full w-6 h-6" />
+            </div>
+          ) : query.trim() && results.length === 0 ? (
+            <p className="text-center text-[10px] font-black uppercase tracking-widest text-white/20 py-6">No matches</p>
+          ) : (
+            results.map(hit => {
+              const contact = profiles.find(p => p.id === hit.contact_id);
+              return (
+                <button
+                  key={hit.id}
+                  onClick={() => contact && onSelect(contact, hit.id)}
+                  disabled={!contact}
+                  className="w-full flex items-start gap-3 p-3 rounded-2xl bg-white/[0.02] border border-white/5 hover:bg-white/[0.05] transition-all text-left disabled:opacity-40"
+                >
+                  <AvatarDisplay profile={contact} className="h-9 w-9 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-white truncate">
+                        {hit.sender_id === userId ? `You → ${contact?.username ?? "Unknown"}` : contact?.username ?? "Unknown"}
+                      </p>
+                      <span className="text-[8px] font-bold text-white/20 shrink-0">{new Date(hit.created_at).toLocaleDateString()}</span>
+                    </div>
+                    <p className="text-xs text-white/60 line-clamp-2 break-words"><Snippet text={hit.text} query={query} /></p>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        <p className="flex items-center justify-center gap-1.5 text-[8px] font-bold uppercase tracking-widest text-white/20">
+          <Lock className="w-2.5 h-2.5" /> Searches messages opened on this device · index encrypted locally
+        </p>
+      </div>
+    </motion.div>
+  );
+}
@@ -9,7 +9,7 @@ import { toast } from "sonner";
 import { 
   User, Shield, Moon, Sun, Monitor, Trash2, LogOut, MapPin, 
   Ghost, Sparkles, Key, CheckCircle, XCircle, Loader2, X,
-  Calendar, Activity, Flame, Edit3, Camera, ArrowLeft, Save, Users, Trophy, Zap, TrendingUp, ChevronRight
+  Calendar, Activity, Flame, Edit3, Camera, ArrowLeft, Save, Users, Trophy, Zap, TrendingUp, ChevronRight, KeyRound, Smartphone, Plus, RefreshCw, Check, CheckCheck
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
@@ -18,6 +18,10 @@ import { AvatarBuilder } from "./AvatarBuilder";
 import { useTheme } from "next-themes";
 import { motion, AnimatePresence } from "framer-motion";
 import { useRouter } from "next/navigation";
+import { fetchKeyBackup, saveKeyBackup, MIN_BACKUP_PASSPHRASE_LENGTH, type StoredKeyBackup } from "@/lib/keyBackup";
+import { fetchDevices, revokeDevice, getDeviceId, type Device } from "@/lib/devices";
+import { decryptPrivateKeyBackup } from "@/lib/crypto";
+import { rotateKeyPair, type KeyRotationProgress } from "@/lib/keyRotation";
 
 function formatJoinDate(date: string | null): string {
   if (!date) return "Unknown";
@@ -47,6 +51,8 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
   const [countdownEnd, setCountdownEnd] = useState(profile.countdown_end || "");
   const [locationEnabled, setLocationEnabled] = useState(profile.location_enabled || false);
   const [ghostMode, setGhostMode] = useState(profile.ghost_mode || false);
+  const [readReceipts, setReadReceipts] = useState(profile.read_receipts !== false);
+  const [deliveryReceipts, setDeliveryReceipts] = useState(profile.delivery_receipts !== false);
   const [newPassword, setNewPassword] = useState("");
   const [passwordReason, setPasswordReason] = useState("");
   const [blockedProfiles, setBlockedProfiles] = useState<any[]>([]);
@@ -60,12 +66,24 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
   const [totalStreak, setTotalStreak] = useState(0);
   const [allUsers, setAllUsers] = useState<any[]>([]);
   const [loadingStreaks, setLoadingStreaks] = useState(true);
+  const [keyBackup, setKeyBackup] = useState<StoredKeyBackup | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [backupPassphraseConfirm, setBackupPassphraseConfirm] = useState("");
+  const [savingBackup, setSavingBackup] = useState(false);
+  const [rotationPassphrase, setRotationPassphrase] = useState("");
+  const [rotating, setRotating] = useState(false);
+  const [rotationProgress, setRotationProgress] = useState<KeyRotationProgress | null>(null);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchBlockedProfiles();
     fetchPasswordRequest();
     fetchUserStreaks();
     fetchAllUsers();
+    fetchKeyBackup(profile.id).then(setKeyBackup);
+    fetchDevices(profile.id).then(setDevices);
+    setCurrentDeviceId(getDeviceId(profile.id));
   }, []);
 
   async function fetchBlockedProfiles() {
@@ -175,6 +193,73 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
     }
   }
 
+  async function handleKeyBackup() {
+    if (backupPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (backupPassphrase !== backupPassphraseConfirm) {
+      toast.error("Passphrases do not match");
+      return;
+    }
+
+    const privKeyBase64 = localStorage.getItem(`priv_key_${profile.id}`);
+    if (!privKeyBase64) {
+      toast.error("No encryption key on this device");
+      return;
+    }
+
+    setSavingBackup(true);
+    try {
+      await saveKeyBackup(profile.id, privKeyBase64, backupPassphrase);
+      toast.success("Encryption key backed up");
+      setBackupPassphrase("");
+      setBackupPassphraseConfirm("");
+      fetchKeyBackup(profile.id).then(setKeyBackup);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingBackup(false);
+    }
+  }
+
+  async function handleKeyRotation() {
+    if (keyBackup) {
+      try {
+        await decryptPrivateKeyBackup(keyBackup, rotationPassphrase);
+      } catch {
+        toast.error("Backup passphrase is incorrect");
+        return;
+      }
+    }
+    if (!confirm(`Rotate your encryption key? This device gets a new key pair and the messages wrapped for it are re-secured under it. Your other linked devices keep their own keys and are not affected, and messages saved, queued or indexed on this device stay as they are.${keyBackup ? " Your key backup is updated to the new key." : ""}`)) return;
+
+    setRotating(true);
+    try {
+      const result = await rotateKeyPair(profile.id, setRotationProgress);
+      if (keyBackup) {
+        await saveKeyBackup(profile.id, result.privateKeyBase64, rotationPassphrase);
+      }
+      toast.success(`Key rotated. ${result.rewrapped} messages re-secured.`);
+      // Every open chat and call holds the old key, so start over with the new one.
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error: any) {
+      toast.error(error.message);
+      setRotating(false);
+    }
+  }
+
+  async function handleRemoveDevice(device: Device) {
+    if (!confirm(`Remove ${device.name}? It will stop receiving new messages and be signed out.`)) return;
+    try {
+      await revokeDevice(device.id);
+      toast.success("Device removed");
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  }
+
   async function handleUpdate() {
     setLoading(true);
     try {
@@ -190,6 +275,8 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
           countdown_end: countdownEnd || null,
           location_enabled: locationEnabled,
           ghost_mode: ghostMode,
+          read_receipts: readReceipts,
+          delivery_receipts: deliveryReceipts,
           updated_at: new Date().toISOString(),
         })
         .eq("id", profile.id);
@@ -211,6 +298,9 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
     try {
       const { error } = await supabase.from("messages").delete().eq("sender_id", profile.id);
       if (error) throw error;
+      // Otherwise they would still be released later.
+      const { error: scheduledError } = await supabase.from("scheduled_messages").delete().eq("sender_id", profile.id);
+      if (scheduledError) throw scheduledError;
       toast.success("All data purged");
     } catch (error: any) {
       toast.error(error.message);
@@ -640,6 +730,32 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
                 <Switch checked={ghostMode} onCheckedChange={setGhostMode} />
               </div>
 
+              <div className="p-5 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-blue-500/10 rounded-xl">
+                    <CheckCheck className="w-5 h-5 text-blue-400" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black text-white uppercase">Read Receipts</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">Off hides theirs from you too</p>
+                  </div>
+                </div>
+                <Switch checked={readReceipts} onCheckedChange={setReadReceipts} />
+              </div>
+
+              <div className="p-5 flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-emerald-500/10 rounded-xl">
+                    <Check className="w-5 h-5 text-emerald-400" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black text-white uppercase">Delivery Receipts</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">Off hides theirs from you too</p>
+                  </div>
+                </div>
+                <Switch checked={deliveryReceipts} onCheckedChange={setDeliveryReceipts} />
+              </div>
+
               <div 
                 className="p-5 cursor-pointer hover:bg-white/[0.02] transition-colors"
                 onClick={() => setActiveSection(activeSection === 'password' ? null : 'password')}
@@ -722,6 +838,116 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
                   </motion.div>
                 )}
               </AnimatePresence>
+
+              <div 
+                className="p-5 cursor-pointer hover:bg-white/[0.02] transition-colors"
+                onClick={() => setActiveSection(activeSection === 'key-backup' ? null : 'key-backup')}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-cyan-500/10 rounded-xl">
+                    <KeyRound className="w-5 h-5 text-cyan-400" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-black text-white uppercase">Key Backup</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">
+                      {keyBackup ? `Last backed up ${new Date(keyBackup.updated_at).toLocaleDateString()}` : "Not backed up"}
+                    </p>
+                  </div>
+                  {keyBackup ? <CheckCircle className="w-4 h-4 text-emerald-400" /> : <XCircle className="w-4 h-4 text-orange-400" />}
+                </div>
+              </div>
+
+              <AnimatePresence>
+                {activeSection === 'key-backup' && (
+                  <motion.div
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="p-5 bg-white/[0.01] space-y-3">
+                      <p className="text-[10px] text-white/40 leading-relaxed">
+                        Your private key is encrypted with this passphrase before it leaves the device. Without it, a new browser cannot read your message history, and we cannot reset it for you.
+                      </p>
+                      <Input 
+                        type="password"
+                        placeholder="Backup passphrase"
+                        value={backupPassphrase} 
+                        onChange={(e) => setBackupPassphrase(e.target.value)}
+                        className="bg-white/[0.03] border-white/5 h-12 rounded-2xl text-white placeholder:text-white/10"
+                      />
+                      <Input 
+                        type="password"
+                        placeholder="Confirm passphrase"
+                        value={backupPassphraseConfirm} 
+                        onChange={(e) => setBackupPassphraseConfirm(e.target.value)}
+                        className="bg-white/[0.03] border-white/5 h-12 rounded-2xl text-white placeholder:text-white/10"
+                      />
+                      <Button 
+                        onClick={handleKeyBackup}
+                        disabled={savingBackup || !backupPassphrase}
+                        className="w-full bg-cyan-600 hover:bg-cyan-700 h-12 rounded-2xl font-black uppercase text-[10px] tracking-widest"
+                      >
+                        {savingBackup ? <Loader2 className="w-4 h-4 animate-spin" /> : keyBackup ? "Replace Backup" : "Back Up Key"}
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+
+              <div 
+                className="p-5 cursor-pointer hover:bg-white/[0.02] transition-colors"
+                onClick={() => setActiveSection(activeSection === 'key-rotation' ? null : 'key-rotation')}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-amber-500/10 rounded-xl">
+                    <RefreshCw className="w-5 h-5 text-amber-400" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-black text-white uppercase">Rotate Key</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">Replace your key pair and keep history</p>
+                  </div>
+                  <ChevronRight className="w-4 h-4 text-white/20" />
+                </div>
+              </div>
+
+              <AnimatePresence>
+                {activeSection === 'key-rotation' && (
+                  <motion.div
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="p-5 bg-white/[0.01] space-y-3">
+                      <p className="text-[10px] text-white/40 leading-relaxed">
+                        A new key pair is generated and published, and every message key held for you is re-encrypted under it. The old key stays on this device so messages already on their way still open. Your contacts will be asked to verify your new safety number.
+                      </p>
+                      {keyBackup && (
+                        <Input 
+                          type="password"
+                          placeholder="Backup passphrase"
+                          value={rotationPassphrase} 
+                          onChange={(e) => setRotationPassphrase(e.target.value)}
+                          className="bg-white/[0.03] border-white/5 h-12 rounded-2xl text-white placeholder:text-white/10"
+                        />
+                      )}
+                      {rotationProgress && (
+                        <p className="text-[8px] text-white/30 font-black uppercase tracking-widest">
+                          {rotationProgress.rewrapped} of {rotationProgress.scanned} messages re-secured
+                        </p>
+                      )}
+                      <Button 
+                        onClick={handleKeyRotation}
+                        disabled={rotating || (!!keyBackup && !rotationPassphrase)}
+                        className="w-full bg-amber-600 hover:bg-amber-700 h-12 rounded-2xl font-black uppercase text-[10px] tracking-widest"
+                      >
+                        {rotating ? <Loader2 className="w-4 h-4 animate-spin" /> : "Rotate Encryption Key"}
+                      </Button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
             </div>
 
             {blockedProfiles.length > 0 && (
@@ -744,6 +970,68 @@ export function ProfileSettings({ profile, onUpdate, onClose }: { profile: any;
             )}
           </motion.div>
 
+          <motion.div 
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.35 }}
+            className="space-y-4"
+          >
+            <h2 className="text-xs font-black uppercase tracking-[0.3em] text-white/30 px-2">Linked Devices</h2>
+
+            <div className="bg-white/[0.02] border border-white/5 rounded-3xl overflow-hidden divide-y divide-white/5">
+              {devices.map((device) => (
+                <div key={device.id} className="p-5 flex items-center gap-4">
+                  <div className="p-3 bg-indigo-500/10 rounded-xl">
+                    <Smartphone className="w-5 h-5 text-indigo-400" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-black text-white uppercase truncate">{device.name}</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">
+                      {device.id === currentDeviceId
+                        ? "This device"
+                        : `Last active ${device.last_active_at ? new Date(device.last_active_at).toLocaleDateString() : "never"}`}
+                    </p>
+                  </div>
+                  {device.id !== currentDeviceId && (
+                    <Button variant="ghost" size="sm" onClick={() => handleRemoveDevice(device)} className="text-red-400 hover:text-red-300 font-black uppercase text-[8px] tracking-widest">Remove</Button>
+                  )}
+                </div>
+              ))}
+
+              <div 
+                className="p-5 cursor-pointer hover:bg-white/[0.02] transition-colors"
+                onClick={() => setActiveSection(activeSection === 'add-device' ? null : 'add-device')}
+              >
+                <div className="flex items-center gap-4">
+                  <div className="p-3 bg-emerald-500/10 rounded-xl">
+                    <Plus className="w-5 h-5 text-emerald-400" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-black text-white uppercase">Add Device</p>
+                    <p className="text-[8px] text-white/30 font-black uppercase tracking-widest mt-0.5">Every device gets its own key</p>
+                  </div>
+                </div>
+              </div>
+
+              <AnimatePresence>
+                {activeSection === 'add-device' && (
+                  <motion.div
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    className="overflow-hidden"
+                  >
+                    <div className="p-5 bg-white/[0.01] space-y-2 text-[10px] text-white/40 leading-relaxed">
+                      <p>1. Sign in to Chatify on the new phone or computer.</p>
+                      <p>2. Restore your key backup to read your existing history, or generate a new key to start fresh on that device.</p>
+                      <p>3. The device registers itself and appears here. New messages are encrypted for every device in this list.</p>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+          </motion.div>
+
           <motion.div 
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
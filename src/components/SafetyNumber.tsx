@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import QRCode from "qrcode";
+import { X, ShieldCheck, ShieldAlert, ScanLine, CheckCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { AvatarDisplay } from "./AvatarDisplay";
+import { formatSafetyNumber, markVerified, clearVerification, type KeyTrustStatus } from "@/lib/safetyNumber";
+
+const QR_PREFIX = "chatify-safety:";
+
+interface SafetyNumberProps {
+  myId: string;
+  contact: any;
+  safetyNumber: string;
+  status: KeyTrustStatus;
+  onStatusChange: (status: KeyTrustStatus) => void;
+  onClose: () => void;
+}
+
+export function SafetyNumber({ myId, contact, safetyNumber, status, onStatusChange, onClose }: SafetyNumberProps) {
+  const [qrUrl, setQrUrl] = useState("");
+  const [compareValue, setCompareValue] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(QR_PREFIX + safetyNumber, { width: 220, margin: 2 }).then(setQrUrl);
+  }, [safetyNumber]);
+
+  useEffect(() => {
+    return () => streamRef.current?.getTracks().forEach(t => t.stop());
+  }, []);
+
+  const normalized = compareValue.replace(QR_PREFIX, "").replace(/\D/g, "");
+  const comparison = normalized.length === 0 ? null : normalized === safetyNumber;
+
+  const handleVerify = () => {
+    markVerified(myId, contact.id, safetyNumber);
+    onStatusChange("verified");
+    toast.success(`${contact.username} marked as verified`);
+  };
+
+  const handleUnverify = () => {
+    clearVerification(myId, contact.id, safetyNumber);
+    onStatusChange("unverified");
+  };
+
+  const stopScan = () => {
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    setScanning(false);
+  };
+
+  const startScan = async () => {
+    const Detector = (window as any).BarcodeDetector;
+    if (!Detector) {
+      toast.error("QR scanning is not supported in this browser. Paste the number instead.");
+      return;
+    }
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      streamRef.current = stream;
+      setScanning(true);
+      const detector = new Detector({ formats: ["qr_code"] });
+
+      const tick = async () => {
+        if (!streamRef.current || !videoRef.current) return;
+        if (videoRef.current.srcObject !== stream) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => {});
+        }
+        try {
+          const codes = await detector.detect(videoRef.current);
+          const match = codes.find((c: any) => typeof c.rawValue === "string" && c.rawValue.startsWith(QR_PREFIX));
+          if (match) {
+            setCompareValue(match.rawValue);
+            stopScan();
+            return;
+          }
+        } catch (e) {}
+        requestAnimationFrame(tick);
+      };
+      requestAnimationFrame(tick);
+    } catch (e) {
+      toast.error("Camera access denied");
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-center justify-center p-4">
+      <div className="relative w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-8 space-y-6 shadow-2xl max-h-[95dvh] overflow-y-auto custom-scrollbar">
+        <button onClick={() => { stopScan(); onClose(); }} className="absolute top-5 right-5 w-10 h-10 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+          <X className="w-5 h-5 text-white" />
+        </button>
+
+        <div className="flex flex-col items-center gap-3 text-center">
+          <AvatarDisplay profile={contact} className="h-14 w-14 ring-2 ring-indigo-500/20" />
+          <h3 className="text-lg font-black italic tracking-tighter uppercase text-white">Safety Number</h3>
+          <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${
+            status === "verified" ? "bg-emerald-500/10 text-emerald-400"
+              : status === "changed" ? "bg-red-500/10 text-red-400"
+              : "bg-white/5 text-white/40"
+          }`}>
+            {status === "changed" ? <ShieldAlert className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+            {status === "verified" ? "Verified" : status === "changed" ? "Key changed" : "Not verified"}
+          </div>
+          <p className="text-[10px] text-white/40 leading-relaxed max-w-[300px]">
+            Compare these numbers with {contact.username} in person or over a call you trust. If they match on both devices, your conversation is end-to-end encrypted with the right keys.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-4 gap-x-4 gap-y-2 font-mono text-base text-white/80 text-center">
+          {formatSafetyNumber(safetyNumber).map((group, i) => <span key={i}>{group}</span>)}
+        </div>
+
+        <div className="flex justify-center">
+          {scanning ? (
+            <video ref={videoRef} playsInline muted className="w-[220px] h-[220px] object-cover rounded-2xl border border-indigo-500/40" />
+          ) : qrUrl ? (
+            <img src={qrUrl} alt="Safety number QR code" className="rounded-2xl bg-white p-2" />
+          ) : null}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={compareValue}
+              onChange={(e) => setCompareValue(e.target.value)}
+              placeholder="Paste or scan partner's number"
+              className="bg-white/[0.03] border-white/5 h-12 rounded-2xl text-white placeholder:text-white/10 font-mono text-xs"
+            />
+            <Button variant="ghost" onClick={scanning ? stopScan : startScan} className="h-12 w-12 rounded-2xl bg-white/5 text-white/60 hover:text-white shrink-0">
+              <ScanLine className="w-5 h-5" />
+            </Button>
+          </div>
+          {comparison !== null && (
+            <div className={`flex items-center gap-2 text-[10px] font-black uppercase tracking-widest ${comparison ? "text-emerald-400" : "text-red-400"}`}>
+              {comparison ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+              {comparison ? "Numbers match" : "Numbers do not match"}
+            </div>
+          )}
+        </div>
+
+        {status === "verified" ? (
+          <Button variant="ghost" onClick={handleUnverify} className="w-full h-12 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">
+            Clear Verification
+          </Button>
+        ) : (
+          <Button onClick={handleVerify} disabled={comparison === false} className="w-full h-12 rounded-2xl bg-emerald-600 hover:bg-emerald-500 text-[10px] font-black uppercase tracking-widest">
+            Mark as Verified
+          </Button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
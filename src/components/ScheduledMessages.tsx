@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, CalendarClock, Edit3, Trash2, Loader2 } from "lucide-react";
+import { toDateTimeLocal, isValidSendTime, type ScheduledMessageRow } from "@/lib/scheduledMessages";
+
+export interface ScheduledItem {
+  row: ScheduledMessageRow;
+  text: string;
+}
+
+interface ScheduledMessagesProps {
+  items: ScheduledItem[];
+  /** Both resolve to whether the change went through; failures are reported by the caller. */
+  onSave: (item: ScheduledItem, text: string, sendAt: Date) => Promise<boolean>;
+  onCancel: (item: ScheduledItem) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function ScheduledMessages({ items, onSave, onCancel, onClose }: ScheduledMessagesProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState("");
+  const [draftTime, setDraftTime] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const startEditing = (item: ScheduledItem) => {
+    setEditingId(item.row.id);
+    setDraftText(item.text);
+    setDraftTime(toDateTimeLocal(new Date(item.row.send_at)));
+  };
+
+  const run = async (item: ScheduledItem, action: () => Promise<boolean>) => {
+    setBusyId(item.row.id);
+    if (await action()) setEditingId(null);
+    setBusyId(null);
+  };
+
+  const draftValid = draftText.trim().length > 0 && !!draftTime && isValidSendTime(new Date(draftTime));
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[120] bg-black/90 backdrop-blur-3xl flex items-center justify-center p-4" onClick={onClose}>
+      <div onClick={(e) => e.stopPropagation()} className="relative w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-[2.5rem] p-8 space-y-6 shadow-2xl max-h-[90dvh] overflow-y-auto custom-scrollbar">
+        <button onClick={onClose} className="absolute top-5 right-5 w-10 h-10 bg-white/5 rounded-full flex items-center justify-center border border-white/10 hover:bg-white/10 transition-all">
+          <X className="w-5 h-5 text-white" />
+        </button>
+
+        <div className="flex items-center gap-3">
+          <CalendarClock className="w-5 h-5 text-indigo-400" />
+          <h3 className="text-lg font-black italic tracking-tighter uppercase text-white">Scheduled</h3>
+        </div>
+
+        <div className="space-y-3">
+          {items.length === 0 && (
+            <p className="text-center text-[9px] font-black uppercase tracking-widest text-white/20 py-6">Nothing waiting to be sent</p>
+          )}
+          {items.map(item => (
+            <div key={item.row.id} className="p-4 rounded-2xl bg-white/[0.03] border border-white/5 space-y-3">
+              {editingId === item.row.id ? (
+                <>
+                  <textarea
+                    value={draftText}
+                    onChange={(e) => setDraftText(e.target.value)}
+                    rows={3}
+                    className="w-full bg-white/[0.03] border border-white/10 rounded-2xl p-3 text-sm text-white outline-none focus:border-indigo-500/50 resize-none"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={draftTime}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setDraftTime(e.target.value)}
+                    className="w-full bg-white/[0.03] border border-white/10 rounded-2xl h-10 px-3 text-xs text-white outline-none focus:border-indigo-500/50 [color-scheme:dark]"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setEditingId(null)} className="px-3 py-2 text-[8px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors">
+                      Discard
+                    </button>
+                    <button
+                      onClick={() => run(item, () => onSave(item, draftText.trim(), new Date(draftTime)))}
+                      disabled={!draftValid || busyId === item.row.id}
+                      className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-[8px] font-black uppercase tracking-widest text-white disabled:opacity-20 transition-all"
+                    >
+                      {busyId === item.row.id ? <Loader2 className="w-3 h-3 animate-spin" /> : "Save"}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-white/90 whitespace-pre-wrap break-words">{item.text}</p>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-[8px] font-black uppercase tracking-widest text-indigo-300">
+                      Sends {new Date(item.row.send_at).toLocaleString()}
+                    </p>
+                    <div className="flex items-center gap-1">
+                      <button onClick={() => startEditing(item)} disabled={busyId === item.row.id} className="p-2 rounded-xl text-white/40 hover:text-white hover:bg-white/5 transition-all">
+                        <Edit3 className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => run(item, () => onCancel(item))} disabled={busyId === item.row.id} className="p-2 rounded-xl text-white/40 hover:text-red-400 hover:bg-red-500/10 transition-all">
+                        {busyId === item.row.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
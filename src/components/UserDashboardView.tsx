@@ -23,12 +23,19 @@ import { PrivateSafe } from "@/components/PrivateSafe";
 import { PasswordGate } from "@/components/PasswordGate";
 import { FriendRequests } from "@/components/FriendRequests";
 import { Cinema } from "@/components/Cinema";
+import { MessageSearch } from "@/components/MessageSearch";
+import { GroupChat } from "@/components/GroupChat";
+import { GroupAvatar } from "@/components/GroupAvatar";
+import { fetchMyGroups, joinedMembers, type Group } from "@/lib/groups";
+import { markMessages } from "@/lib/receipts";
+import { releaseDueMessages } from "@/lib/scheduledMessages";
+import { openSignal } from "@/lib/signaling";
 
 type ActiveView = "dashboard" | "chat" | "calls" | "connections" | "settings" | "advanced";
 
 interface Notification {
   id: string;
-  type: "message" | "call" | "friend_request" | "story" | "broadcast";
+  type: "message" | "call" | "friend_request" | "group_invite" | "story" | "broadcast";
   title: string;
   body: string;
   timestamp: Date;
@@ -79,6 +86,8 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
   const [unreadCount, setUnreadCount] = useState(0);
   const [recentChats, setRecentChats] = useState<any[]>([]);
   const [selectedContact, setSelectedContact] = useState<any>(null);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [selectedGroup, setSelectedGroup] = useState<Group | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [activeCall, setActiveCall] = useState<any>(null);
@@ -86,6 +95,8 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
   const [incomingCall, setIncomingCall] = useState<any>(null);
   const [broadcasts, setBroadcasts] = useState<any[]>([]);
   const [chatSearchQuery, setChatSearchQuery] = useState("");
+  const [showMessageSearch, setShowMessageSearch] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
   const [friends, setFriends] = useState<string[]>([]);
   const [friendProfiles, setFriendProfiles] = useState<any[]>([]);
   const [advancedSubView, setAdvancedSubView] = useState<"menu" | "vault" | "cinema" | "cinema-solo" | "memories">("menu");
@@ -128,6 +139,7 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
     fetchProfile();
     fetchProfiles();
     fetchRecentChats();
+    fetchGroups();
     fetchBroadcasts();
     fetchUnreadCount();
     fetchPendingFriendRequests();
@@ -162,8 +174,14 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
       }
     }, 10000);
 
+    // Fallback for this user's own due scheduled messages; the server-side cron releases everyone's, including senders who are offline.
+    const runRelease = () => releaseDueMessages().catch(() => {});
+    runRelease();
+    const releaseInterval = setInterval(runRelease, 60 * 1000);
+
     return () => {
       clearInterval(interval);
+      clearInterval(releaseInterval);
       document.removeEventListener('visibilitychange', handleVisibilityChange);
       window.removeEventListener('focus', handleFocus);
       updateOnlineStatus(false);
@@ -257,6 +275,15 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
     }
   }
 
+  async function fetchGroups() {
+    try {
+      const rows = await fetchMyGroups(session.user.id);
+      setGroups(rows.filter(r => r.membership.status === "joined").map(r => r.group));
+    } catch (error) {
+      console.error("Failed to fetch groups:", error);
+    }
+  }
+
   async function fetchBroadcasts() {
     const { data } = await supabase.from("broadcasts").select("*").order("created_at", { ascending: false }).limit(1);
     if (data) setBroadcasts(data);
@@ -360,6 +387,10 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
     }).subscribe();
 
     const messagesChannel = supabase.channel("dashboard-messages").on("postgres_changes", { event: "INSERT", schema: "public", table: "messages", filter: `receiver_id=eq.${session.user.id}` }, async (payload) => {
+      if (!payload.new.is_delivered) {
+        // Reaching this device is what moves the sender's tick from sent to delivered; the server skips it if this user keeps that private.
+        markMessages([payload.new.id], "delivered").catch(error => console.error("Delivery receipt error:", error));
+      }
       fetchRecentChats();
       fetchUnreadCount();
       const { data: sender } = await supabase.from("profiles").select("username").eq("id", payload.new.sender_id).single();
@@ -371,6 +402,13 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
     const callsChannel = supabase.channel("incoming-calls").on("postgres_changes", { event: "INSERT", schema: "public", table: "calls", filter: `receiver_id=eq.${session.user.id}` }, async (payload) => {
       const data = payload.new;
       if (data.type === "offer" && !activeCall && !incomingCall) {
+        // Only ring for offers that open and verify as coming from the caller's own device; anything else was not sent by them.
+        try {
+          await openSignal({ senderId: data.caller_id, receiverId: session.user.id, type: "offer" }, data.signal_data, privateKey);
+        } catch (error) {
+          console.error("Dropping unverified call offer:", error);
+          return;
+        }
         const { data: caller } = await supabase.from("profiles").select("*").eq("id", data.caller_id).single();
         if (caller) {
           setIncomingCall({ ...data, caller });
@@ -406,6 +444,18 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
       }
     }).subscribe();
 
+    const groupsChannel = supabase.channel("group-memberships").on("postgres_changes", { event: "*", schema: "public", table: "group_members", filter: `user_id=eq.${session.user.id}` }, async (payload) => {
+      fetchGroups();
+      if (payload.eventType === "INSERT" && payload.new.status === "invited") {
+        const { data: group } = await supabase.from("groups").select("name").eq("id", payload.new.group_id).single();
+        if (group) {
+          toast.info(`You were invited to ${group.name}`);
+          showNotification("Group Invitation", { body: `You were invited to join ${group.name}` });
+          addNotification("group_invite", "Group Invitation", `You were invited to join ${group.name}`, { groupId: payload.new.group_id });
+        }
+      }
+    }).subscribe();
+
     const presenceChannel = supabase.channel("online-users").on("presence", { event: "sync" }, () => {
       const state = presenceChannel.presenceState();
       const online = new Set<string>();
@@ -421,13 +471,17 @@ export function UserDashboardView({ session, privateKey }: UserDashboardViewProp
       supabase.removeChannel(callsChannel);
       supabase.removeChannel(storiesChannel);
       supabase.removeChannel(friendRequestsChannel);
+      supabase.removeChannel(groupsChannel);
       supabase.removeChannel(presenceChannel);
     };
   }
 
   const handleNavClick = (view: ActiveView) => {
     setActiveView(view);
-    if (view !== "chat") setSelectedContact(null);
+    if (view !== "chat") {
+      setSelectedContact(null);
+      setSelectedGroup(null);
+    }
     if (view === "advanced") {
       setAdvancedSubView("menu");
       setSelectedFriendForMemories(null);
@@ -611,7 +665,7 @@ const advancedFeatures = [
                           {isFriend(user.id) ? (
                             <Button
                               size="sm"
-                              onClick={(e) => { e.stopPropagation(); setSelectedContact(user); setActiveView("chat"); setShowFriendSearch(false); setFriendSearchQuery(""); }}
+                              onClick={(e) => { e.stopPropagation(); setSelectedContact(user); setSelectedGroup(null); setActiveView("chat"); setShowFriendSearch(false); setFriendSearchQuery(""); }}
                               className="h-8 px-3 bg-indigo-600 hover:bg-indigo-700 text-[10px] uppercase"
                             >
                               Chat
@@ -782,7 +836,7 @@ const advancedFeatures = [
                                 {isFriend(user.id) ? (
                                   <Button
                                     size="sm"
-                                    onClick={(e) => { e.stopPropagation(); setSelectedContact(user); setActiveView("chat"); setShowFriendSearch(false); setFriendSearchQuery(""); }}
+                                    onClick={(e) => { e.stopPropagation(); setSelectedContact(user); setSelectedGroup(null); setActiveView("chat"); setShowFriendSearch(false); setFriendSearchQuery(""); }}
                                     className="h-10 px-4 bg-indigo-600 hover:bg-indigo-700 text-xs uppercase rounded-xl"
                                   >
                                     Chat
@@ -850,7 +904,7 @@ const advancedFeatures = [
                     ) : (
                       <div className="space-y-2">
                         {friendProfiles.slice(0, 4).map(friend => (
-                          <div key={friend.id} className="w-full flex items-center gap-4 p-4 hover:bg-white/5 rounded-2xl transition-all cursor-pointer" onClick={() => { setSelectedContact(friend); setActiveView("chat"); }}>
+                          <div key={friend.id} className="w-full flex items-center gap-4 p-4 hover:bg-white/5 rounded-2xl transition-all cursor-pointer" onClick={() => { setSelectedContact(friend); setSelectedGroup(null); setActiveView("chat"); }}>
                             <AvatarDisplay profile={friend} className="h-10 w-10" />
                             <div className="flex-1 text-left">
                               <p className="font-black text-sm uppercase italic">{friend.username}</p>
@@ -901,13 +955,28 @@ const advancedFeatures = [
               <motion.div key="chat" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="h-full">
                 {!isChatUnlocked ? (
                   <PasswordGate correctPassword="040408" onUnlock={() => { sessionStorage.setItem("chat_unlocked", "true"); setIsChatUnlocked(true); }} title="Signal Uplink" subtitle="Encrypted Channel" description="Authorization code required to decrypt message matrix." />
+                ) : selectedGroup ? (
+                  <GroupChat
+                    session={session}
+                    privateKey={privateKey}
+                    group={selectedGroup}
+                    friendProfiles={friendProfiles}
+                    onlineUsers={onlineUsers}
+                    onBack={() => setSelectedGroup(null)}
+                    onLeft={() => { setSelectedGroup(null); fetchGroups(); }}
+                  />
                 ) : !selectedContact ? (
                   <div className="h-full flex flex-col p-8">
                     <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 mb-8">
                       <h2 className="text-2xl font-black uppercase italic">Signal Channels</h2>
-                      <div className="relative group w-full md:w-80">
-                        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-white/20" />
-                        <input placeholder="Search friends..." value={chatSearchQuery} onChange={(e) => setChatSearchQuery(e.target.value)} className="w-full bg-white/[0.03] border border-white/10 rounded-2xl py-3_pl-12_pr-6 text-sm outline-none focus:border-indigo-500/50 transition-all placeholder:text-white/10" />
+                      <div className="flex items-center gap-3 w-full md:w-auto">
+                        <div className="relative group w-full md:w-80">
+                          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-white/20" />
+                          <input placeholder="Search friends..." value={chatSearchQuery} onChange={(e) => setChatSearchQuery(e.target.value)} className="w-full bg-white/[0.03] border border-white/10 rounded-2xl py-3_pl-12_pr-6 text-sm outline-none focus:border-indigo-500/50 transition-all placeholder:text-white/10" />
+                        </div>
+                        <Button onClick={() => setShowMessageSearch(true)} className="bg-white/[0.03] border border-white/10 hover:bg-white/10 rounded-2xl uppercase text-[10px] font-black tracking-widest shrink-0">
+                          <Search className="w-4 h-4 mr-2" /> Messages
+                        </Button>
                       </div>
                     </div>
                     
@@ -922,6 +991,29 @@ const advancedFeatures = [
                       </div>
                     ) : (
                       <>
+                        {groups.length > 0 && (
+                          <>
+                            <h3 className="text-sm font-black uppercase tracking-widest text-white/40 mb-4">Groups ({groups.length})</h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pr-2 mb-8">
+                              {groups.filter(g => g.name.toLowerCase().includes(chatSearchQuery.toLowerCase())).map(g => {
+                                const members = joinedMembers(g.members);
+                                const online = members.filter(m => m.user_id !== session.user.id && onlineUsers.has(m.user_id)).length;
+                                return (
+                                  <div key={g.id} className="flex items-center gap-4 p-6 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/[0.05] transition-all group cursor-pointer" onClick={() => setSelectedGroup(g)}>
+                                    <GroupAvatar group={g} className="h-14 w-14 group-hover:scale-110 transition-transform" />
+                                    <div className="flex-1 text-left min-w-0">
+                                      <p className="font-black text-lg uppercase italic hover:text-indigo-400 transition-colors truncate">{g.name}</p>
+                                      <p className={`text-[10px] font-bold uppercase tracking-widest ${online > 0 ? 'text-emerald-500' : 'text-white/20'}`}>
+                                        {members.length} members · {online} online
+                                      </p>
+                                    </div>
+                                    <ChevronRight className="w-5 h-5 text-white/10 group-hover:text-indigo-400 transition-all" />
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </>
+                        )}
                         <h3 className="text-sm font-black uppercase tracking-widest text-white/40 mb-4">Friends ({friendProfiles.length})</h3>
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 overflow-y-auto custom-scrollbar pr-2 pb-24 mb-8">
                           {friendProfiles.filter(p => p.username.toLowerCase().includes(chatSearchQuery.toLowerCase())).map(p => (
@@ -969,8 +1061,21 @@ const advancedFeatures = [
                     )}
                   </div>
                 ) : (
-                  <Chat session={session} privateKey={privateKey} initialContact={selectedContact} isPartnerOnline={onlineUsers.has(selectedContact.id)} onBack={() => setSelectedContact(null)} onInitiateCall={(c, m) => setActiveCall({ contact: c, mode: m, isInitiator: true })} />
+                  <Chat session={session} privateKey={privateKey} initialContact={selectedContact} isPartnerOnline={onlineUsers.has(selectedContact.id)} onBack={() => setSelectedContact(null)} onInitiateCall={(c, m) => setActiveCall({ contact: c, mode: m, isInitiator: true })} focusMessageId={focusMessageId} onFocusHandled={() => setFocusMessageId(null)} />
                 )}
+                <AnimatePresence>{showMessageSearch && (
+                  <MessageSearch
+                    userId={session.user.id}
+                    profiles={profiles}
+                    onSelect={(contact, messageId) => {
+                      setShowMessageSearch(false);
+                      setFocusMessageId(messageId);
+                      setSelectedContact(contact);
+                      setSelectedGroup(null);
+                    }}
+                    onClose={() => setShowMessageSearch(false)}
+                  />
+                )}</AnimatePresence>
               </motion.div>
             )}
 
@@ -1015,7 +1120,11 @@ const advancedFeatures = [
 
             {activeView === "connections" && (
               <motion.div key="connections" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="h-full">
-                <FriendRequests userId={session.user.id} onFriendsUpdate={(ids) => { setFriends(ids); fetchFriends(); }} />
+                <FriendRequests
+                  userId={session.user.id}
+                  onFriendsUpdate={(ids) => { setFriends(ids); fetchFriends(); }}
+                  onOpenGroup={(group) => { setSelectedContact(null); setSelectedGroup(group); setActiveView("chat"); }}
+                />
               </motion.div>
             )}
 
@@ -1255,7 +1364,7 @@ const advancedFeatures = [
           )}
         </AnimatePresence>
 
-        <nav className={`lg:hidden fixed bottom-0 left-0 right-0 border-t border-white/5 bg-[#050505]/95 backdrop-blur-3xl px-2 py-3 flex justify-around items-center z-50 rounded-t-2xl pb-safe transition-all ${(activeView === 'chat' && selectedContact) ? 'translate-y-full' : ''}`}>
+        <nav className={`lg:hidden fixed bottom-0 left-0 right-0 border-t border-white/5 bg-[#050505]/95 backdrop-blur-3xl px-2 py-3 flex justify-around items-center z-50 rounded-t-2xl pb-safe transition-all ${(activeView === 'chat' && (selectedContact || selectedGroup)) ? 'translate-y-full' : ''}`}>
           {navItems.map(item => {
             const isActive = activeView === item.id;
             return (
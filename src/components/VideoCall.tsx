@@ -9,7 +9,7 @@ import {
   Video as VideoIcon, Phone, Maximize2, Minimize2, MicOff, Mic, PhoneOff, CameraOff, AlertTriangle, Shield, Globe, Zap, Camera, ShieldCheck, Volume2, VolumeX, SwitchCamera
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { encryptMessage, decryptMessage, importPublicKey } from "@/lib/crypto";
+import { sealSignal, openSignal, SignalError, type SignalType } from "@/lib/signaling";
 
 interface VideoCallProps {
   contact: any;
@@ -51,7 +51,6 @@ export function VideoCall({
   const hasAnswered = useRef(false);
   const iceCandidateQueue = useRef<RTCIceCandidateInit[]>([]);
   const remoteDescriptionSet = useRef(false);
-  const partnerPublicKeyRef = useRef<CryptoKey | null>(null);
 
   useEffect(() => {
     if (myVideo.current && stream) {
@@ -84,36 +83,11 @@ export function VideoCall({
     return () => clearInterval(timer);
   }, [isConnecting]);
 
-  const encryptSignal = async (data: any) => {
-    if (!partnerPublicKeyRef.current) {
-      if (contact.public_key) {
-        partnerPublicKeyRef.current = await importPublicKey(contact.public_key);
-      } else {
-        return JSON.stringify(data);
-      }
-    }
-    try {
-      const encrypted = await encryptMessage(JSON.stringify(data), partnerPublicKeyRef.current);
-      return JSON.stringify({ encrypted });
-    } catch (e) {
-      console.error("Encryption failed", e);
-      return JSON.stringify(data);
-    }
-  };
+  const encryptSignal = (type: SignalType, data: unknown) =>
+    sealSignal({ senderId: userId, receiverId: contact.id, type }, data, contact.public_key);
 
-  const decryptSignal = async (signalStr: string) => {
-    try {
-      const parsed = JSON.parse(signalStr);
-      if (parsed.encrypted) {
-        const decrypted = await decryptMessage(parsed.encrypted, privateKey);
-        return JSON.parse(decrypted);
-      }
-      return parsed;
-    } catch (e) {
-      console.error("Decryption failed", e);
-      return JSON.parse(signalStr);
-    }
-  };
+  const decryptSignal = (type: SignalType, signalStr: string) =>
+    openSignal({ senderId: contact.id, receiverId: userId, type }, signalStr, privateKey);
 
   const processQueuedCandidates = async (pc: RTCPeerConnection) => {
     while (iceCandidateQueue.current.length > 0) {
@@ -155,7 +129,7 @@ export function VideoCall({
 
     pc.onicecandidate = async (event) => {
       if (event.candidate) {
-        const encryptedData = await encryptSignal({ candidate: event.candidate.toJSON() });
+        const encryptedData = await encryptSignal("candidate", { candidate: event.candidate.toJSON() });
         await supabase.from("calls").insert({
           caller_id: userId,
           receiver_id: contact.id,
@@ -183,8 +157,10 @@ export function VideoCall({
 
     const startCall = async () => {
       try {
-        if (contact.public_key) {
-          partnerPublicKeyRef.current = await importPublicKey(contact.public_key);
+        if (!contact.public_key) {
+          toast.error("Partner node not synchronized. Call cannot be secured.");
+          onClose();
+          return;
         }
 
         const constraints = {
@@ -205,7 +181,7 @@ export function VideoCall({
         if (isInitiator) {
           const offer = await pc.createOffer();
           await pc.setLocalDescription(offer);
-          const encryptedData = await encryptSignal({ sdp: pc.localDescription });
+          const encryptedData = await encryptSignal("offer", { sdp: pc.localDescription });
           await supabase.from("calls").insert({
             caller_id: userId,
             receiver_id: contact.id,
@@ -215,14 +191,14 @@ export function VideoCall({
           });
         } else if (incomingSignal) {
           // Decrypt incoming signal if it's already available
-          const signal = await decryptSignal(JSON.stringify(incomingSignal));
+          const signal = await decryptSignal("offer", JSON.stringify(incomingSignal));
           if (signal.sdp) {
             await pc.setRemoteDescription(new RTCSessionDescription(signal.sdp));
             remoteDescriptionSet.current = true;
             await processQueuedCandidates(pc);
             const answer = await pc.createAnswer();
             await pc.setLocalDescription(answer);
-            const encryptedData = await encryptSignal({ sdp: pc.localDescription });
+            const encryptedData = await encryptSignal("answer", { sdp: pc.localDescription });
             await supabase.from("calls").insert({
               caller_id: userId,
               receiver_id: contact.id,
@@ -238,7 +214,14 @@ export function VideoCall({
           .on("postgres_changes", { event: "INSERT", schema: "public", table: "calls", filter: `receiver_id=eq.${userId}` }, async (payload) => {
             const data = payload.new;
             if (!peerConnection.current) return;
-            const signalData = await decryptSignal(data.signal_data);
+            if (data.caller_id !== contact.id) return;
+            let signalData: any;
+            try {
+              signalData = await decryptSignal(data.type, data.signal_data);
+            } catch (e) {
+              console.warn(`Dropped ${data.type} signal:`, e);
+              return;
+            }
 
             if (data.type === "answer" && isInitiator && signalData.sdp && !hasAnswered.current) {
               hasAnswered.current = true;
@@ -260,7 +243,7 @@ export function VideoCall({
 
       } catch (err) {
         console.error(err);
-        toast.error("Call setup failed. Check permissions.");
+        toast.error(err instanceof SignalError ? "Call signal could not be verified." : "Call setup failed. Check permissions.");
         onClose();
       }
     };
@@ -276,7 +259,8 @@ export function VideoCall({
 
   const endCall = async () => {
     try {
-      await supabase.from("calls").insert({ caller_id: userId, receiver_id: contact.id, type: "end", signal_data: "{}" });
+      const signalData = await encryptSignal("end", {});
+      await supabase.from("calls").insert({ caller_id: userId, receiver_id: contact.id, type: "end", signal_data: signalData });
     } catch (e) {}
     if (stream) stream.getTracks().forEach(t => t.stop());
     if (peerConnection.current) peerConnection.current.close();
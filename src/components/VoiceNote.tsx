@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useInView } from "react-intersection-observer";
+import { Play, Pause, Lock } from "lucide-react";
+import { VOICE_WAVEFORM_BARS, PLAYBACK_RATES, formatDuration } from "@/lib/voiceNotes";
+
+interface VoiceNoteProps {
+  src: string | null;
+  waveform?: number[];
+  duration?: number;
+  isMe: boolean;
+  onVisible: () => void;
+}
+
+/** Encrypted voice note player; like EncryptedImage, it asks for the audio once it nears the viewport. */
+export function VoiceNote({ src, waveform, duration, isMe, onVisible }: VoiceNoteProps) {
+  const { ref, inView } = useInView({ triggerOnce: true, rootMargin: "300px 0px" });
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const scrubbingRef = useRef(false);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [length, setLength] = useState(duration || 0);
+  const [rate, setRate] = useState<number>(PLAYBACK_RATES[0]);
+
+  useEffect(() => {
+    if (inView && !src) onVisible();
+  }, [inView, src]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate, src]);
+
+  const bars = waveform?.length ? waveform : Array(VOICE_WAVEFORM_BARS).fill(0.3);
+  const progress = length > 0 ? Math.min(1, position / length) : 0;
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(e => console.error("Voice note playback failed:", e));
+    else audio.pause();
+  };
+
+  const seekTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || length <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    audio.currentTime = ratio * length;
+    setPosition(ratio * length);
+  };
+
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate as typeof PLAYBACK_RATES[number]) + 1) % PLAYBACK_RATES.length];
+    setRate(next);
+  };
+
+  return (
+    <div ref={ref} className={`w-64 flex items-center gap-3 px-4 py-3 rounded-[2rem] ${isMe ? "bg-indigo-600 shadow-xl shadow-indigo-600/10" : "bg-white/[0.03] border border-white/5"}`}>
+      {src && (
+        <audio
+          ref={audioRef}
+          src={src}
+          preload="metadata"
+          onLoadedMetadata={(e) => {
+            // MediaRecorder webm files often report an infinite duration; the recorded length in meta covers that.
+            if (Number.isFinite(e.currentTarget.duration)) setLength(e.currentTarget.duration);
+          }}
+          onTimeUpdate={(e) => { if (!scrubbingRef.current) setPosition(e.currentTarget.currentTime); }}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => { setPlaying(false); setPosition(0); }}
+        />
+      )}
+      <button
+        onClick={togglePlay}
+        disabled={!src}
+        className="w-9 h-9 shrink-0 rounded-full bg-white/15 flex items-center justify-center hover:bg-white/25 transition-all disabled:opacity-40"
+      >
+        {!src ? <Lock className="w-4 h-4 text-white/60" /> : playing ? <Pause className="w-4 h-4 text-white" /> : <Play className="w-4 h-4 text-white ml-0.5" />}
+      </button>
+      <div className="flex-1 min-w-0">
+        <div
+          className={`h-8 flex items-center gap-[2px] touch-none ${src ? "cursor-pointer" : "animate-pulse"}`}
+          onPointerDown={(e) => {
+            if (!src) return;
+            scrubbingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekTo(e);
+          }}
+          onPointerMove={(e) => { if (scrubbingRef.current) seekTo(e); }}
+          onPointerUp={(e) => {
+            scrubbingRef.current = false;
+            e.currentTarget.releasePointerCapture(e.pointerId);
+          }}
+        >
+          {bars.map((level, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full transition-colors ${(i + 0.5) / bars.length <= progress ? "bg-white" : "bg-white/30"}`}
+              style={{ height: `${Math.max(0.12, level) * 100}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-[8px] font-black tracking-widest text-white/50">
+            {formatDuration(playing || position > 0 ? position : length)}
+          </span>
+          <button onClick={cycleRate} className="text-[8px] font-black tracking-widest text-white/50 hover:text-white transition-colors">
+            {rate}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -41,7 +41,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
-import { encryptMessage, decryptMessage, importPublicKey } from "@/lib/crypto";
+import { sealSignal, openSignal, SignalError, type SignalType } from "@/lib/signaling";
 
 interface WatchPartyProps {
   contact: any;
@@ -100,7 +100,6 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
   const videoChunksRef = useRef<ArrayBuffer[]>([]);
   const expectedChunksRef = useRef<number>(0);
   const receivedChunksCountRef = useRef<number>(0);
-  const partnerPublicKeyRef = useRef<CryptoKey | null>(null);
 
   useEffect(() => {
     if (myVideo.current && stream) {
@@ -187,36 +186,11 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
     };
   }, [showVideoSetup, hideControlsAfterDelay]);
 
-  const encryptSignal = async (data: any) => {
-    if (!partnerPublicKeyRef.current) {
-      if (contact.public_key) {
-        partnerPublicKeyRef.current = await importPublicKey(contact.public_key);
-      } else {
-        return JSON.stringify(data);
-      }
-    }
-    try {
-      const encrypted = await encryptMessage(JSON.stringify(data), partnerPublicKeyRef.current);
-      return JSON.stringify({ encrypted });
-    } catch (e) {
-      console.error("Encryption failed", e);
-      return JSON.stringify(data);
-    }
-  };
+  const encryptSignal = (type: SignalType, data: unknown) =>
+    sealSignal({ senderId: userId, receiverId: contact.id, type }, data, contact.public_key);
 
-  const decryptSignal = async (signalStr: string) => {
-    try {
-      const parsed = JSON.parse(signalStr);
-      if (parsed.encrypted) {
-        const decrypted = await decryptMessage(parsed.encrypted, privateKey);
-        return JSON.parse(decrypted);
-      }
-      return parsed;
-    } catch (e) {
-      console.error("Decryption failed", e);
-      return JSON.parse(signalStr);
-    }
-  };
+  const decryptSignal = (type: SignalType, signalStr: string) =>
+    openSignal({ senderId: contact.id, receiverId: userId, type }, signalStr, privateKey);
 
   const processQueuedCandidates = async (pc: RTCPeerConnection) => {
     while (iceCandidateQueue.current.length > 0) {
@@ -378,7 +352,7 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
 
       pc.onicecandidate = async (event) => {
         if (event.candidate) {
-          const encryptedData = await encryptSignal({ candidate: event.candidate.toJSON() });
+          const encryptedData = await encryptSignal("candidate", { candidate: event.candidate.toJSON() });
           await supabase.from("calls").insert({
             caller_id: userId,
             receiver_id: contact.id,
@@ -408,8 +382,10 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
 
     const startCall = async () => {
       try {
-        if (contact.public_key) {
-          partnerPublicKeyRef.current = await importPublicKey(contact.public_key);
+        if (!contact.public_key) {
+          toast.error("Partner node not synchronized. Call cannot be secured.");
+          onClose();
+          return;
         }
 
         const localStream = await navigator.mediaDevices.getUserMedia({
@@ -430,7 +406,7 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
         if (isInitiator) {
           const offer = await pc.createOffer();
           await pc.setLocalDescription(offer);
-          const encryptedData = await encryptSignal({ sdp: pc.localDescription });
+          const encryptedData = await encryptSignal("offer", { sdp: pc.localDescription });
           await supabase.from("calls").insert({
             caller_id: userId,
             receiver_id: contact.id,
@@ -439,14 +415,14 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
             call_mode: "watchparty",
           });
         } else if (incomingSignal) {
-          const signal = await decryptSignal(JSON.stringify(incomingSignal));
+          const signal = await decryptSignal("offer", JSON.stringify(incomingSignal));
           if (signal.sdp) {
             await pc.setRemoteDescription(new RTCSessionDescription(signal.sdp));
             remoteDescriptionSet.current = true;
             await processQueuedCandidates(pc);
             const answer = await pc.createAnswer();
             await pc.setLocalDescription(answer);
-            const encryptedData = await encryptSignal({ sdp: pc.localDescription });
+            const encryptedData = await encryptSignal("answer", { sdp: pc.localDescription });
             await supabase.from("calls").insert({
               caller_id: userId,
               receiver_id: contact.id,
@@ -463,7 +439,14 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
           .on("postgres_changes", { event: "INSERT", schema: "public", table: "calls", filter: `receiver_id=eq.${userId}` }, async (payload) => {
             const data = payload.new;
             if (!peerConnection.current) return;
-            const signalData = await decryptSignal(data.signal_data);
+            if (data.caller_id !== contact.id) return;
+            let signalData: any;
+            try {
+              signalData = await decryptSignal(data.type, data.signal_data);
+            } catch (e) {
+              console.warn(`Dropped ${data.type} signal:`, e);
+              return;
+            }
 
             if (data.type === "answer" && isInitiator && signalData.sdp && !hasAnswered.current) {
               hasAnswered.current = true;
@@ -484,7 +467,7 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
         channelRef.current = channel;
       } catch (err) {
         console.error("WatchParty setup failed:", err);
-        toast.error("Call setup failed. Check permissions.");
+        toast.error(err instanceof SignalError ? "Call signal could not be verified." : "Call setup failed. Check permissions.");
         onClose();
       }
     };
@@ -500,7 +483,8 @@ export function WatchParty({ contact, onClose, userId, privateKey, isInitiator =
 
   const endCall = async () => {
     try {
-      await supabase.from("calls").insert({ caller_id: userId, receiver_id: contact.id, type: "end", signal_data: "{}" });
+      const signalData = await encryptSignal("end", {});
+      await supabase.from("calls").insert({ caller_id: userId, receiver_id: contact.id, type: "end", signal_data: signalData });
     } catch (e) {}
     if (stream) stream.getTracks().forEach((t) => t.stop());
     if (peerConnection.current) peerConnection.current.close();
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import {
+  LIVE_LOCATION_INTERVAL_MS, isLiveLocationActive, publishLiveLocation,
+  type LiveLocation, type LocationFix
+} from "@/lib/liveLocation";
+
+interface LiveLocationSharingOptions {
+  userId: string;
+  messages: any[];
+  latest: Record<string, LiveLocation>;
+  keyFor: (messageId: string) => CryptoKey | undefined;
+  onFix: (messageId: string, fix: LiveLocation) => void;
+}
+
+/**
+ * Watches the device position for every live location the user is still
+ * sharing in `messages`, including ones started before a reload, and
+ * publishes encrypted updates until the window closes or `stopSharing` is called.
+ */
+export function useLiveLocationSharing({ userId, messages, latest, keyFor, onFix }: LiveLocationSharingOptions) {
+  const watchersRef = useRef(new Map<string, { watchId: number; timer: ReturnType<typeof setTimeout> }>());
+  const callbacksRef = useRef({ keyFor, onFix });
+  callbacksRef.current = { keyFor, onFix };
+
+  const unwatch = (messageId: string) => {
+    const watcher = watchersRef.current.get(messageId);
+    if (!watcher) return;
+    navigator.geolocation.clearWatch(watcher.watchId);
+    clearTimeout(watcher.timer);
+    watchersRef.current.delete(messageId);
+  };
+
+  const publish = async (messageId: string, fix: LocationFix) => {
+    const key = callbacksRef.current.keyFor(messageId);
+    if (!key) return;
+    callbacksRef.current.onFix(messageId, { ...fix, updated_at: new Date().toISOString() });
+    try {
+      await publishLiveLocation(messageId, userId, fix, key);
+    } catch (e) {
+      console.error("Live location update failed:", e);
+    }
+  };
+
+  const watch = (msg: any) => {
+    let lastSent = 0;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        if (Date.now() - lastSent < LIVE_LOCATION_INTERVAL_MS) return;
+        lastSent = Date.now();
+        publish(msg.id, { latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy: pos.coords.accuracy });
+      },
+      (err) => console.error("Live location watch error:", err),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    const timer = setTimeout(() => unwatch(msg.id), new Date(msg.meta.location.live_until).getTime() - Date.now());
+    watchersRef.current.set(msg.id, { watchId, timer });
+  };
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !("geolocation" in navigator)) return;
+    const sharing = messages.filter(m =>
+      m.sender_id === userId &&
+      m.media_type === "location" &&
+      !m.deleted_at &&
+      callbacksRef.current.keyFor(m.id) &&
+      isLiveLocationActive(m.meta?.location, latest[m.id])
+    );
+    sharing.forEach(m => { if (!watchersRef.current.has(m.id)) watch(m); });
+    watchersRef.current.forEach((_, id) => { if (!sharing.some(m => m.id === id)) unwatch(id); });
+  }, [messages, latest]);
+
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    return () => { watchers.forEach((_, id) => unwatch(id)); };
+  }, []);
+
+  const stopSharing = async (msg: any) => {
+    unwatch(msg.id);
+    const last = latest[msg.id] ?? msg.meta.location;
+    await publish(msg.id, { latitude: last.latitude, longitude: last.longitude, accuracy: last.accuracy, stopped: true });
+  };
+
+  return { stopSharing };
+}
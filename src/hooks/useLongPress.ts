@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { PointerEvent as ReactPointerEvent, MouseEvent as ReactMouseEvent } from "react";
+
+const LONG_PRESS_MS = 500;
+const MOVE_TOLERANCE_PX = 10;
+
+/**
+ * Touch and pen press-and-hold, for browsers such as iOS Safari that never fire
+ * `contextmenu`. `bind(action)` returns handlers for one element; mouse input
+ * is left to `onContextMenu`. Moving the pointer, e.g. to swipe, cancels the
+ * press, and the click that ends a completed press is swallowed.
+ */
+export function useLongPress() {
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const originRef = useRef<{ x: number; y: number } | null>(null);
+  const firedRef = useRef(false);
+
+  const cancel = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    originRef.current = null;
+  };
+
+  useEffect(() => cancel, []);
+
+  const bind = (action: () => void) => ({
+    onPointerDown: (e: ReactPointerEvent) => {
+      if (e.pointerType === "mouse") return;
+      cancel();
+      firedRef.current = false;
+      originRef.current = { x: e.clientX, y: e.clientY };
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        firedRef.current = true;
+        action();
+      }, LONG_PRESS_MS);
+    },
+    onPointerMove: (e: ReactPointerEvent) => {
+      const origin = originRef.current;
+      if (origin && Math.hypot(e.clientX - origin.x, e.clientY - origin.y) > MOVE_TOLERANCE_PX) cancel();
+    },
+    onPointerUp: cancel,
+    onPointerCancel: cancel,
+    onPointerLeave: cancel,
+    onClickCapture: (e: ReactMouseEvent) => {
+      if (!firedRef.current) return;
+      firedRef.current = false;
+      e.preventDefault();
+      e.stopPropagation();
+    },
+  });
+
+  return bind;
+}
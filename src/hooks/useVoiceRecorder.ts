@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  VOICE_NOTE_MIN_SECONDS, VOICE_NOTE_MAX_SECONDS,
+  pickRecordingMimeType, computeWaveform
+} from "@/lib/voiceNotes";
+
+export interface RecordedVoiceNote {
+  blob: Blob;
+  mime: string;
+  duration: number;
+  waveform: number[];
+}
+
+/**
+ * Hold-to-record: `start` on press, `stop(true)` on release to keep the note,
+ * `stop(false)` to throw it away. Finished notes are handed to `onRecorded`.
+ */
+export function useVoiceRecorder(onRecorded: (note: RecordedVoiceNote) => void) {
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const keepRef = useRef(true);
+  const releasedRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const onRecordedRef = useRef(onRecorded);
+  onRecordedRef.current = onRecorded;
+
+  const stop = (keep: boolean) => {
+    releasedRef.current = true;
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    keepRef.current = keep;
+    recorder.stop();
+  };
+
+  const start = async () => {
+    if (recorderRef.current) return;
+    if (typeof MediaRecorder === "undefined") {
+      toast.error("Voice notes are not supported in this browser");
+      return;
+    }
+    releasedRef.current = false;
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast.error("Microphone access denied");
+      return;
+    }
+    // The button may have been released while the permission prompt was open.
+    if (releasedRef.current) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+
+    const mimeType = pickRecordingMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    chunksRef.current = [];
+    keepRef.current = true;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunksRef.current.push(e.data);
+    };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(t => t.stop());
+      if (timerRef.current) clearInterval(timerRef.current);
+      recorderRef.current = null;
+      setRecording(false);
+
+      const duration = (Date.now() - startedAtRef.current) / 1000;
+      if (!keepRef.current) return;
+      if (duration < VOICE_NOTE_MIN_SECONDS) {
+        toast.info("Hold to record a voice note");
+        return;
+      }
+
+      const mime = recorder.mimeType || mimeType || "audio/webm";
+      const blob = new Blob(chunksRef.current, { type: mime });
+      let waveform: number[] = [];
+      try {
+        waveform = await computeWaveform(blob);
+      } catch (e) {
+        console.error("Waveform analysis failed:", e);
+      }
+      onRecordedRef.current({ blob, mime, duration, waveform });
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    setRecording(true);
+    recorder.start(250);
+
+    timerRef.current = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= VOICE_NOTE_MAX_SECONDS) stop(true);
+    }, 250);
+  };
+
+  useEffect(() => {
+    return () => {
+      keepRef.current = false;
+      if (timerRef.current) clearInterval(timerRef.current);
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    };
+  }, []);
+
+  return { recording, elapsed, start, stop };
+}
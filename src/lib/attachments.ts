@@ -0,0 +1,40 @@
+import { sha256Hex } from "@/lib/crypto";
+
+export const ATTACHMENT_MAX_BYTES = (Number(process.env.NEXT_PUBLIC_ATTACHMENT_MAX_MB) || 100) * 1024 * 1024;
+
+export class AttachmentIntegrityError extends Error {
+  constructor() {
+    super("The decrypted file does not match the checksum the sender recorded");
+    this.name = "AttachmentIntegrityError";
+  }
+}
+
+/** Compares the decrypted file with the checksum sealed into the message meta. */
+export async function verifyAttachment(blob: Blob, expectedSha256: string | undefined) {
+  if (!expectedSha256) throw new AttachmentIntegrityError();
+  if (await sha256Hex(blob) !== expectedSha256) throw new AttachmentIntegrityError();
+}
+
+/** The sender picks the name, so drop anything that could read as a path. */
+export function safeFileName(name: string | undefined): string {
+  const cleaned = (name || "").replace(/[/\\?%*:|"<>\u0000-\u001f]/g, "_").replace(/^\.+/, "").trim();
+  return cleaned || "attachment";
+}
+
+export function saveBlob(blob: Blob, name: string | undefined) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = safeFileName(name);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function formatFileSize(bytes: number | undefined): string {
+  if (bytes === undefined) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
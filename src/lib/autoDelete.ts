@@ -0,0 +1,22 @@
+/** Every mode a conversation's auto-delete setting can be in. */
+export const AUTO_DELETE_MODES = ["none", "view", "1m_view", "1h_view", "3h_view", "1m", "3h"];
+
+/**
+ * The message columns an auto-delete mode stands for. Timed modes count from
+ * `now`, which is when the row reaches `messages`, not when it was composed.
+ */
+export function autoDeleteFields(mode: string, now = Date.now()) {
+  return {
+    is_view_once: mode === "view",
+    is_disappearing: mode.endsWith("_view"),
+    disappearing_duration: mode === "1m_view" ? 1 
+      : mode === "1h_view" ? 60 
+      : mode === "3h_view" ? 180 
+      : null,
+    expires_at: mode === "3h" 
+      ? new Date(now + 3 * 60 * 60 * 1000).toISOString() 
+      : mode === "1m"
+      ? new Date(now + 60 * 1000).toISOString()
+      : null
+  };
+}
@@ -1,6 +1,9 @@
 
+// Resolved through globalThis so the same module runs in browsers, API routes and Node scripts.
+export const webcrypto: Crypto = globalThis.crypto;
+
 export async function generateKeyPair() {
-  return await window.crypto.subtle.generateKey(
+  return await webcrypto.subtle.generateKey(
     {
       name: "RSA-OAEP",
       modulusLength: 4096,
@@ -12,17 +15,17 @@ export async function generateKeyPair() {
   );
 }
 
-function bufferToBase64(buffer: ArrayBuffer): string {
+export function bufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   let binary = "";
   for (let i = 0; i < bytes.byteLength; i++) {
     binary += String.fromCharCode(bytes[i]);
   }
-  return window.btoa(binary);
+  return globalThis.btoa(binary);
 }
 
-function base64ToBuffer(base64: string): Uint8Array {
-  const binaryString = window.atob(base64);
+export function base64ToBuffer(base64: string): Uint8Array<ArrayBuffer> {
+  const binaryString = globalThis.atob(base64);
   const bytes = new Uint8Array(binaryString.length);
   for (let i = 0; i < binaryString.length; i++) {
     bytes[i] = binaryString.charCodeAt(i);
@@ -31,13 +34,13 @@ function base64ToBuffer(base64: string): Uint8Array {
 }
 
 export async function exportPublicKey(key: CryptoKey) {
-  const exported = await window.crypto.subtle.exportKey("spki", key);
+  const exported = await webcrypto.subtle.exportKey("spki", key);
   return bufferToBase64(exported);
 }
 
 export async function importPublicKey(pem: string) {
   const binaryDer = base64ToBuffer(pem);
-  return await window.crypto.subtle.importKey(
+  return await webcrypto.subtle.importKey(
     "spki",
     binaryDer.buffer,
     {
@@ -50,13 +53,13 @@ export async function importPublicKey(pem: string) {
 }
 
 export async function exportPrivateKey(key: CryptoKey) {
-  const exported = await window.crypto.subtle.exportKey("pkcs8", key);
+  const exported = await webcrypto.subtle.exportKey("pkcs8", key);
   return bufferToBase64(exported);
 }
 
 export async function importPrivateKey(pem: string) {
   const binaryDer = base64ToBuffer(pem);
-  return await window.crypto.subtle.importKey(
+  return await webcrypto.subtle.importKey(
     "pkcs8",
     binaryDer.buffer,
     {
@@ -68,10 +71,24 @@ export async function importPrivateKey(pem: string) {
   );
 }
 
+export async function derivePublicKey(privateKey: CryptoKey) {
+  const { kty, n, e } = await webcrypto.subtle.exportKey("jwk", privateKey);
+  return await webcrypto.subtle.importKey(
+    "jwk",
+    { kty, n, e, alg: "RSA-OAEP-512", ext: true },
+    {
+      name: "RSA-OAEP",
+      hash: "SHA-512",
+    },
+    true,
+    ["encrypt"]
+  );
+}
+
 export async function encryptMessage(message: string, publicKey: CryptoKey) {
   const encoder = new TextEncoder();
   const data = encoder.encode(message);
-  const encrypted = await window.crypto.subtle.encrypt(
+  const encrypted = await webcrypto.subtle.encrypt(
     {
       name: "RSA-OAEP",
     },
@@ -84,7 +101,7 @@ export async function encryptMessage(message: string, publicKey: CryptoKey) {
 export async function decryptMessage(encryptedBase64: string, privateKey: CryptoKey) {
   try {
     const data = base64ToBuffer(encryptedBase64);
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
+    const decryptedBuffer = await webcrypto.subtle.decrypt(
       {
         name: "RSA-OAEP",
       },
@@ -99,7 +116,7 @@ export async function decryptMessage(encryptedBase64: string, privateKey: Crypto
 }
 
 export async function generateAESKey() {
-  return await window.crypto.subtle.generateKey(
+  return await webcrypto.subtle.generateKey(
     { name: "AES-GCM", length: 256 },
     true,
     ["encrypt", "decrypt"]
@@ -107,13 +124,13 @@ export async function generateAESKey() {
 }
 
 export async function exportKey(key: CryptoKey) {
-  const exported = await window.crypto.subtle.exportKey("raw", key);
+  const exported = await webcrypto.subtle.exportKey("raw", key);
   return bufferToBase64(exported);
 }
 
 export async function importAESKey(base64: string) {
   const bytes = base64ToBuffer(base64);
-  return await window.crypto.subtle.importKey(
+  return await webcrypto.subtle.importKey(
     "raw",
     bytes.buffer,
     "AES-GCM",
@@ -122,11 +139,12 @@ export async function importAESKey(base64: string) {
   );
 }
 
-export async function encryptWithAES(text: string, key: CryptoKey) {
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+/** `additionalData`, when given, is authenticated but not encrypted and must be passed again to decrypt. */
+export async function encryptWithAES(text: string, key: CryptoKey, additionalData?: string) {
+  const iv = webcrypto.getRandomValues(new Uint8Array(12));
   const encoder = new TextEncoder();
-  const encrypted = await window.crypto.subtle.encrypt(
-    { name: "AES-GCM", iv, tagLength: 128 },
+  const encrypted = await webcrypto.subtle.encrypt(
+    { name: "AES-GCM", iv, tagLength: 128, ...(additionalData !== undefined && { additionalData: encoder.encode(additionalData) }) },
     key,
     encoder.encode(text)
   );
@@ -136,13 +154,13 @@ export async function encryptWithAES(text: string, key: CryptoKey) {
   };
 }
 
-export async function decryptWithAES(encryptedBase64: string, ivBase64: string, key: CryptoKey) {
+export async function decryptWithAES(encryptedBase64: string, ivBase64: string, key: CryptoKey, additionalData?: string) {
   try {
     const encryptedBytes = base64ToBuffer(encryptedBase64);
     const ivBytes = base64ToBuffer(ivBase64);
 
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
-      { name: "AES-GCM", iv: ivBytes, tagLength: 128 },
+    const decryptedBuffer = await webcrypto.subtle.decrypt(
+      { name: "AES-GCM", iv: ivBytes, tagLength: 128, ...(additionalData !== undefined && { additionalData: new TextEncoder().encode(additionalData) }) },
       key,
       encryptedBytes
     );
@@ -154,8 +172,8 @@ export async function decryptWithAES(encryptedBase64: string, ivBase64: string,
 }
 
 export async function encryptAESKeyForUser(aesKey: CryptoKey, userPublicKey: CryptoKey) {
-  const exported = await window.crypto.subtle.exportKey("raw", aesKey);
-  const encrypted = await window.crypto.subtle.encrypt(
+  const exported = await webcrypto.subtle.exportKey("raw", aesKey);
+  const encrypted = await webcrypto.subtle.encrypt(
     { name: "RSA-OAEP" },
     userPublicKey,
     exported
@@ -166,12 +184,12 @@ export async function encryptAESKeyForUser(aesKey: CryptoKey, userPublicKey: Cry
 export async function decryptAESKeyWithUserPrivateKey(encryptedAESKeyBase64: string, userPrivateKey: CryptoKey) {
   try {
     const bytes = base64ToBuffer(encryptedAESKeyBase64);
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
+    const decryptedBuffer = await webcrypto.subtle.decrypt(
       { name: "RSA-OAEP" },
       userPrivateKey,
       bytes
     );
-    return await window.crypto.subtle.importKey(
+    return await webcrypto.subtle.importKey(
       "raw",
       decryptedBuffer,
       "AES-GCM",
@@ -185,9 +203,9 @@ export async function decryptAESKeyWithUserPrivateKey(encryptedAESKeyBase64: str
 }
 
 export async function encryptBlob(blob: Blob, key: CryptoKey): Promise<{ encryptedBlob: Blob; iv: string }> {
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const iv = webcrypto.getRandomValues(new Uint8Array(12));
   const arrayBuffer = await blob.arrayBuffer();
-  const encrypted = await window.crypto.subtle.encrypt(
+  const encrypted = await webcrypto.subtle.encrypt(
     { name: "AES-GCM", iv, tagLength: 128 },
     key,
     arrayBuffer
@@ -202,7 +220,7 @@ export async function decryptToBlob(encryptedArrayBuffer: ArrayBuffer, ivBase64:
   try {
     const ivBytes = base64ToBuffer(ivBase64);
 
-    const decryptedBuffer = await window.crypto.subtle.decrypt(
+    const decryptedBuffer = await webcrypto.subtle.decrypt(
       { name: "AES-GCM", iv: ivBytes, tagLength: 128 },
       key,
       encryptedArrayBuffer
@@ -216,20 +234,25 @@ export async function decryptToBlob(encryptedArrayBuffer: ArrayBuffer, ivBase64:
 
 export function generateSecureToken(length: number = 32): string {
   const array = new Uint8Array(length);
-  window.crypto.getRandomValues(array);
+  webcrypto.getRandomValues(array);
   return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
 export async function hashData(data: string): Promise<string> {
   const encoder = new TextEncoder();
   const dataBuffer = encoder.encode(data);
-  const hashBuffer = await window.crypto.subtle.digest('SHA-512', dataBuffer);
+  const hashBuffer = await webcrypto.subtle.digest('SHA-512', dataBuffer);
   return bufferToBase64(hashBuffer);
 }
 
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const hashBuffer = await webcrypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(hashBuffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 export async function deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
   const encoder = new TextEncoder();
-  const keyMaterial = await window.crypto.subtle.importKey(
+  const keyMaterial = await webcrypto.subtle.importKey(
     "raw",
     encoder.encode(password),
     "PBKDF2",
@@ -237,7 +260,7 @@ export async function deriveKey(password: string, salt: Uint8Array): Promise<Cry
     ["deriveBits", "deriveKey"]
   );
   
-  return await window.crypto.subtle.deriveKey(
+  return await webcrypto.subtle.deriveKey(
     {
       name: "PBKDF2",
       salt: salt as any,
@@ -250,3 +273,28 @@ export async function deriveKey(password: string, salt: Uint8Array): Promise<Cry
     ["encrypt", "decrypt"]
   );
 }
+
+export interface PrivateKeyBackup {
+  encrypted_key: string;
+  iv: string;
+  salt: string;
+}
+
+export async function encryptPrivateKeyBackup(privateKeyBase64: string, passphrase: string): Promise<PrivateKeyBackup> {
+  const salt = webcrypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveKey(passphrase, salt);
+  const encrypted = await encryptWithAES(privateKeyBase64, wrappingKey);
+  return {
+    encrypted_key: encrypted.content,
+    iv: encrypted.iv,
+    salt: bufferToBase64(salt.buffer)
+  };
+}
+
+export async function decryptPrivateKeyBackup(backup: PrivateKeyBackup, passphrase: string): Promise<string> {
+  const wrappingKey = await deriveKey(passphrase, base64ToBuffer(backup.salt));
+  const privateKeyBase64 = await decryptWithAES(backup.encrypted_key, backup.iv, wrappingKey);
+  // Make sure the unwrapped bytes are a usable key before anyone persists them.
+  await importPrivateKey(privateKeyBase64);
+  return privateKeyBase64;
+}
@@ -0,0 +1,123 @@
+import { supabase } from "@/lib/supabase";
+import { importPublicKey } from "@/lib/crypto";
+
+export interface Device {
+  id: string;
+  user_id: string;
+  name: string;
+  public_key: string;
+  created_at: string;
+  last_active_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface DeviceKey {
+  id: string;
+  user_id: string;
+  key: CryptoKey;
+}
+
+const importedKeys = new Map<string, CryptoKey>();
+
+export function getDeviceId(userId: string): string {
+  const storageKey = `device_id_${userId}`;
+  let deviceId = localStorage.getItem(storageKey);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(storageKey, deviceId);
+  }
+  return deviceId;
+}
+
+export function forgetDevice(userId: string) {
+  localStorage.removeItem(`device_id_${userId}`);
+  localStorage.removeItem(`priv_key_${userId}`);
+}
+
+export function describeDevice(): string {
+  const ua = navigator.userAgent;
+  const browser = /Edg\//.test(ua) ? "Edge"
+    : /Firefox\//.test(ua) ? "Firefox"
+    : /Chrome\//.test(ua) ? "Chrome"
+    : /Safari\//.test(ua) ? "Safari"
+    : "Browser";
+  const os = /Android/.test(ua) ? "Android"
+    : /iPhone|iPad|iPod/.test(ua) ? "iOS"
+    : /Mac OS X/.test(ua) ? "macOS"
+    : /Windows/.test(ua) ? "Windows"
+    : /Linux/.test(ua) ? "Linux"
+    : "Unknown OS";
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Publishes this browser's public key in the device registry. Returns false when
+ * the device was removed from another session, in which case the caller must
+ * drop the local key instead of re-registering.
+ */
+export async function registerDevice(userId: string, publicKeyBase64: string): Promise<boolean> {
+  const deviceId = getDeviceId(userId);
+  const { data: existing } = await supabase
+    .from("devices")
+    .select("revoked_at")
+    .eq("id", deviceId)
+    .maybeSingle();
+
+  if (existing?.revoked_at) return false;
+
+  const now = new Date().toISOString();
+  const { error } = await supabase.from("devices").upsert({
+    id: deviceId,
+    user_id: userId,
+    name: describeDevice(),
+    public_key: publicKeyBase64,
+    last_active_at: now,
+    ...(existing ? {} : { created_at: now }),
+  }, { onConflict: "id" });
+
+  if (error) throw error;
+  return true;
+}
+
+export async function fetchDevices(userId: string): Promise<Device[]> {
+  const { data } = await supabase
+    .from("devices")
+    .select("*")
+    .eq("user_id", userId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: true });
+  return data || [];
+}
+
+export async function revokeDevice(deviceId: string) {
+  const { error } = await supabase
+    .from("devices")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", deviceId);
+  if (error) throw error;
+}
+
+export async function fetchActiveDeviceKeys(userIds: string[]): Promise<DeviceKey[]> {
+  const { data, error } = await supabase
+    .from("devices")
+    .select("id, user_id, public_key")
+    .in("user_id", userIds)
+    .is("revoked_at", null);
+
+  if (error || !data) return [];
+
+  const keys = await Promise.all(data.map(async (device) => {
+    try {
+      let key = importedKeys.get(device.public_key);
+      if (!key) {
+        key = await importPublicKey(device.public_key);
+        importedKeys.set(device.public_key, key);
+      }
+      return { id: device.id, user_id: device.user_id, key };
+    } catch (e) {
+      console.error(`Skipping device ${device.id} with unusable key`, e);
+      return null;
+    }
+  }));
+  return keys.filter((k): k is DeviceKey => k !== null);
+}
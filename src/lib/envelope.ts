@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { encryptWithAES, decryptWithAES, encryptAESKeyForUser, decryptAESKeyWithUserPrivateKey } from "@/lib/crypto";
+
+export const CURRENT_ENVELOPE_VERSION = 2;
+
+const encoded = z.string().min(1);
+
+const prekeyHeaderSchema = z.object({
+  ik: encoded,
+  ek: encoded,
+  spk_id: z.string().min(1),
+  opk_id: z.string().nullable(),
+});
+
+const ratchetHeaderSchema = z.object({
+  sid: encoded,
+  dh: encoded,
+  pn: z.number().int().nonnegative(),
+  n: z.number().int().nonnegative(),
+  prekey: prekeyHeaderSchema.optional(),
+});
+
+const sessionEntrySchema = z.object({
+  header: ratchetHeaderSchema,
+  iv: encoded,
+  key: encoded,
+});
+
+const sealedMetaSchema = z.object({
+  iv: encoded,
+  content: encoded,
+});
+
+/** Structured details about a message, encrypted with the same key as its content. */
+export const messageMetaSchema = z.object({
+  reply_to: z.object({
+    id: z.string().min(1),
+    sender_id: z.string().min(1),
+  }).optional(),
+  media: z.object({
+    mime: z.string().min(1),
+    duration: z.number().nonnegative().optional(),
+    waveform: z.array(z.number().min(0).max(1)).max(128).optional(),
+    size: z.number().int().nonnegative().optional(),
+    thumbnail: z.string().startsWith("data:image/").max(200_000).optional(),
+    name: z.string().min(1).max(255).optional(),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+  }).optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().nonnegative().optional(),
+    live_until: z.string().datetime().optional(),
+  }).optional(),
+});
+
+export type MessageMeta = z.infer<typeof messageMetaSchema>;
+
+/** RSA-OAEP wrapped key per user (and, later, per device). Rows written before versioning have no `v`. */
+export const envelopeV1Schema = z.object({
+  v: z.literal(1),
+  iv: encoded,
+  content: encoded,
+  media_iv: encoded.nullable().optional(),
+  keys: z.record(encoded),
+  device_keys: z.record(encoded).optional(),
+  sender_device: z.string().min(1).optional(),
+  meta: sealedMetaSchema.optional(),
+  signature: encoded.optional(),
+});
+
+/** Ratchet session entries per device, with RSA fallback for devices that publish no prekeys. */
+export const envelopeV2Schema = z.object({
+  v: z.literal(2),
+  sender_device: z.string().min(1),
+  iv: encoded,
+  content: encoded,
+  media_iv: encoded.nullable().optional(),
+  sessions: z.record(sessionEntrySchema),
+  device_keys: z.record(encoded),
+  meta: sealedMetaSchema.optional(),
+  signature: encoded.optional(),
+});
+
+export type EnvelopeV1 = z.infer<typeof envelopeV1Schema>;
+export type EnvelopeV2 = z.infer<typeof envelopeV2Schema>;
+export type Envelope = EnvelopeV1 | EnvelopeV2;
+
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+  }
+}
+
+export class MalformedEnvelopeError extends EnvelopeError {
+  constructor(message: string, readonly issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = "MalformedEnvelopeError";
+  }
+}
+
+export class UnsupportedEnvelopeVersionError extends EnvelopeError {
+  constructor(readonly version: unknown) {
+    super(`Unsupported envelope version: ${String(version)}`);
+    this.name = "UnsupportedEnvelopeVersionError";
+  }
+}
+
+export class MissingRecipientKeyError extends EnvelopeError {
+  constructor() {
+    super("Envelope carries no key for this device");
+    this.name = "MissingRecipientKeyError";
+  }
+}
+
+export class EnvelopeDecryptionError extends EnvelopeError {
+  constructor(readonly cause: unknown) {
+    super("Envelope could not be decrypted");
+    this.name = "EnvelopeDecryptionError";
+  }
+}
+
+const schemas: Record<number, z.ZodTypeAny> = {
+  1: envelopeV1Schema,
+  2: envelopeV2Schema,
+};
+
+function validate(value: unknown): Envelope {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new MalformedEnvelopeError("Envelope is not an object");
+  }
+  const raw = value as Record<string, unknown>;
+  const version = raw.v === undefined ? 1 : raw.v;
+  const schema = typeof version === "number" ? schemas[version] : undefined;
+  if (!schema) throw new UnsupportedEnvelopeVersionError(version);
+
+  const result = schema.safeParse({ ...raw, v: version });
+  if (!result.success) {
+    throw new MalformedEnvelopeError(`Invalid v${version} envelope`, result.error.issues);
+  }
+  return result.data;
+}
+
+export function encodeEnvelope(envelope: Envelope): string {
+  return JSON.stringify(validate(envelope));
+}
+
+export function decodeEnvelope(encrypted: string): Envelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(encrypted);
+  } catch {
+    throw new MalformedEnvelopeError("Envelope is not valid JSON");
+  }
+  return validate(parsed);
+}
+
+/**
+ * The exact string a sender signs: the encrypted content of the envelope, bound
+ * to the row it is written to and to both participants, so a valid packet
+ * cannot be replayed as another message or under another sender. Key wrapping
+ * entries are left out because recipients re-wrap their own entries when they
+ * rotate keys.
+ */
+export function envelopeSigningPayload(envelope: Envelope, messageId: string, senderId: string, receiverId: string): string {
+  const { v, sender_device, iv, content, media_iv, meta } = validate(envelope);
+  return `${messageId}|${senderId}|${receiverId}|${JSON.stringify({ v, sender_device, iv, content, media_iv, meta })}`;
+}
+
+export async function sealMessageMeta(meta: MessageMeta, aesKey: CryptoKey): Promise<Envelope["meta"]> {
+  const { content, iv } = await encryptWithAES(JSON.stringify(messageMetaSchema.parse(meta)), aesKey);
+  return { iv, content };
+}
+
+/** Meta that fails to decrypt or validate is dropped rather than failing the whole message. */
+export async function openMessageMeta(envelope: Envelope, aesKey: CryptoKey): Promise<MessageMeta> {
+  if (!envelope.meta) return {};
+  try {
+    const decrypted = await decryptWithAES(envelope.meta.content, envelope.meta.iv, aesKey);
+    const result = messageMetaSchema.safeParse(JSON.parse(decrypted));
+    return result.success ? result.data : {};
+  } catch {
+    return {};
+  }
+}
+
+async function rewrap(wrapped: string, oldKey: CryptoKey, newPublicKey: CryptoKey) {
+  const aesKey = await decryptAESKeyWithUserPrivateKey(wrapped, oldKey);
+  return await encryptAESKeyForUser(aesKey, newPublicKey);
+}
+
+/**
+ * Moves the RSA-wrapped keys meant for `userId` and `deviceId` from an old key
+ * pair to a new one, or returns null if nothing in the envelope was wrapped
+ * for them. Ratchet entries are left alone; they never depended on the RSA key.
+ */
+export async function rewrapEnvelope(
+  envelope: Envelope,
+  userId: string,
+  deviceId: string,
+  oldKey: CryptoKey,
+  newPublicKey: CryptoKey
+): Promise<Envelope | null> {
+  const next = structuredClone(envelope);
+  let changed = false;
+
+  if (next.v === 1 && next.keys[userId]) {
+    next.keys[userId] = await rewrap(next.keys[userId], oldKey, newPublicKey);
+    changed = true;
+  }
+  if (next.device_keys?.[deviceId]) {
+    next.device_keys[deviceId] = await rewrap(next.device_keys[deviceId], oldKey, newPublicKey);
+    changed = true;
+  }
+  return changed ? next : null;
+}
@@ -0,0 +1,330 @@
+import { supabase } from "@/lib/supabase";
+import {
+  generateAESKey, importPublicKey, encryptAESKeyForUser, decryptAESKeyWithUserPrivateKey,
+  encryptWithAES, decryptWithAES
+} from "@/lib/crypto";
+import { encodeEnvelope, decodeEnvelope, envelopeSigningPayload, type Envelope } from "@/lib/envelope";
+import { getDeviceId, fetchActiveDeviceKeys } from "@/lib/devices";
+import { signPayload, verifyPayload } from "@/lib/signing";
+import { loadRetiredPrivateKeys } from "@/lib/keyRotation";
+
+export const GROUP_MAX_MEMBERS = 32;
+export const GROUP_MESSAGE_PAGE_SIZE = 50;
+
+export type GroupRole = "admin" | "member";
+export type GroupMemberStatus = "invited" | "joined";
+
+export interface Group {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+  members?: GroupMember[];
+}
+
+export interface GroupMember {
+  group_id: string;
+  user_id: string;
+  role: GroupRole;
+  status: GroupMemberStatus;
+  invited_by: string | null;
+  joined_at: string | null;
+  created_at: string;
+  profile?: any;
+}
+
+export interface GroupMessageRow {
+  id: string;
+  group_id: string;
+  sender_id: string;
+  sender_device: string;
+  epoch: number;
+  iv: string;
+  content: string;
+  signature: string;
+  created_at: string;
+}
+
+export interface GroupMessage {
+  id: string;
+  group_id: string;
+  sender_id: string;
+  created_at: string;
+  text: string;
+  sender_verified: boolean;
+}
+
+interface SenderKeyRow {
+  group_id: string;
+  sender_id: string;
+  epoch: number;
+  encrypted_content: string;
+  created_at: string;
+}
+
+/** What a sender key envelope decrypts to; ties the key to one sender, epoch and member list. */
+interface SenderKeyBinding {
+  group_id: string;
+  sender_id: string;
+  epoch: number;
+  members: string[];
+}
+
+const MEMBER_SELECT = "*, profile:profiles!group_members_user_id_fkey(*)";
+
+export const joinedMembers = (members: GroupMember[] = []) => members.filter(m => m.status === "joined");
+
+/** Groups the user belongs to or is invited to, each with its full member list. */
+export async function fetchMyGroups(userId: string): Promise<{ group: Group; membership: GroupMember }[]> {
+  const { data, error } = await supabase
+    .from("group_members")
+    .select(`*, group:groups(*, members:group_members(${MEMBER_SELECT}))`)
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data || [])
+    .filter(row => row.group)
+    .map(({ group, ...membership }) => ({ group, membership }));
+}
+
+export async function fetchGroupMembers(groupId: string): Promise<GroupMember[]> {
+  const { data, error } = await supabase
+    .from("group_members")
+    .select(MEMBER_SELECT)
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createGroup(userId: string, name: string, inviteeIds: string[]): Promise<Group> {
+  if (inviteeIds.length + 1 > GROUP_MAX_MEMBERS) throw new Error(`Groups are limited to ${GROUP_MAX_MEMBERS} members`);
+  const { data: group, error } = await supabase
+    .from("groups")
+    .insert({ name: name.trim(), created_by: userId })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const now = new Date().toISOString();
+  const { error: membersError } = await supabase.from("group_members").insert([
+    { group_id: group.id, user_id: userId, role: "admin", status: "joined", invited_by: null, joined_at: now },
+    ...inviteeIds.map(id => ({ group_id: group.id, user_id: id, role: "member", status: "invited", invited_by: userId, joined_at: null })),
+  ]);
+  if (membersError) throw membersError;
+  return group;
+}
+
+export async function inviteToGroup(groupId: string, invitedBy: string, userIds: string[], currentCount: number) {
+  if (currentCount + userIds.length > GROUP_MAX_MEMBERS) throw new Error(`Groups are limited to ${GROUP_MAX_MEMBERS} members`);
+  const { error } = await supabase.from("group_members").insert(
+    userIds.map(id => ({ group_id: groupId, user_id: id, role: "member", status: "invited", invited_by: invitedBy, joined_at: null }))
+  );
+  if (error) throw error;
+}
+
+export async function respondToGroupInvite(groupId: string, userId: string, accept: boolean) {
+  if (!accept) {
+    await removeGroupMember(groupId, userId);
+    return;
+  }
+  const { error } = await supabase
+    .from("group_members")
+    .update({ status: "joined", joined_at: new Date().toISOString() })
+    .eq("group_id", groupId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+export async function setGroupMemberRole(groupId: string, userId: string, role: GroupRole) {
+  const { error } = await supabase
+    .from("group_members")
+    .update({ role })
+    .eq("group_id", groupId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Removes a member, or the user themselves when leaving. Remaining senders re-key on their next message. */
+export async function removeGroupMember(groupId: string, userId: string) {
+  const { error } = await supabase
+    .from("group_members")
+    .delete()
+    .eq("group_id", groupId)
+    .eq("user_id", userId);
+  if (error) throw error;
+}
+
+async function privateKeysOf(userId: string, privateKey: CryptoKey) {
+  return [privateKey, ...(await loadRetiredPrivateKeys(userId))];
+}
+
+function sameMembers(a: string[], b: string[]) {
+  const x = [...a].sort();
+  const y = [...b].sort();
+  return x.length === y.length && x.every((id, i) => id === y[i]);
+}
+
+/**
+ * Wraps a sender key for every member in the same multi-recipient envelope a
+ * direct message uses: one RSA entry per member and per active device, signed
+ * by the sending device.
+ */
+async function sealSenderKey(binding: SenderKeyBinding, key: CryptoKey): Promise<string> {
+  const deviceId = getDeviceId(binding.sender_id);
+  const [{ data: profiles, error }, devices] = await Promise.all([
+    supabase.from("profiles").select("id, public_key").in("id", binding.members),
+    fetchActiveDeviceKeys(binding.members),
+  ]);
+  if (error) throw error;
+
+  const keys: Record<string, string> = {};
+  await Promise.all((profiles || []).filter(p => p.public_key).map(async p => {
+    keys[p.id] = await encryptAESKeyForUser(key, await importPublicKey(p.public_key));
+  }));
+  const deviceKeys: Record<string, string> = {};
+  await Promise.all(devices.map(async device => {
+    deviceKeys[device.id] = await encryptAESKeyForUser(key, device.key);
+  }));
+
+  const { content, iv } = await encryptWithAES(JSON.stringify(binding), key);
+  const envelope: Envelope = { v: 1, iv, content, keys, device_keys: deviceKeys, sender_device: deviceId };
+  const signature = await signPayload(deviceId, envelopeSigningPayload(envelope, `${binding.group_id}:${binding.epoch}`, binding.sender_id, binding.group_id));
+  return encodeEnvelope({ ...envelope, signature });
+}
+
+async function openSenderKey(row: SenderKeyRow, userId: string, privateKeys: CryptoKey[]): Promise<{ key: CryptoKey; binding: SenderKeyBinding } | null> {
+  try {
+    const envelope = decodeEnvelope(row.encrypted_content);
+    if (envelope.v !== 1) return null;
+    // Authenticity is checked per message in openGroupMessage, which flags unsigned senders like direct chats do.
+    const wrapped = [envelope.device_keys?.[getDeviceId(userId)], envelope.keys[userId]].filter((k): k is string => !!k);
+    for (const privateKey of privateKeys) {
+      for (const candidate of wrapped) {
+        try {
+          const key = await decryptAESKeyWithUserPrivateKey(candidate, privateKey);
+          const binding: SenderKeyBinding = JSON.parse(await decryptWithAES(envelope.content, envelope.iv, key));
+          if (binding.group_id !== row.group_id || binding.sender_id !== row.sender_id || binding.epoch !== row.epoch) return null;
+          return { key, binding };
+        } catch {
+          // Try the next key pair.
+        }
+      }
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+const senderKeys = new Map<string, Promise<CryptoKey | null>>();
+const senderKeyId = (groupId: string, senderId: string, epoch: number) => `${groupId}:${senderId}:${epoch}`;
+
+async function fetchSenderKey(groupId: string, senderId: string, epoch: number, userId: string, privateKey: CryptoKey): Promise<CryptoKey | null> {
+  const id = senderKeyId(groupId, senderId, epoch);
+  let key = senderKeys.get(id);
+  if (!key) {
+    key = (async () => {
+      const { data } = await supabase
+        .from("group_sender_keys")
+        .select("*")
+        .eq("group_id", groupId)
+        .eq("sender_id", senderId)
+        .eq("epoch", epoch)
+        .maybeSingle();
+      if (!data) return null;
+      return (await openSenderKey(data, userId, await privateKeysOf(userId, privateKey)))?.key ?? null;
+    })();
+    senderKeys.set(id, key);
+    key.then(k => { if (!k) senderKeys.delete(id); });
+  }
+  return key;
+}
+
+/**
+ * The key this user encrypts group messages with. Whenever the joined members
+ * differ from the ones the latest key was wrapped for, a fresh key is made for
+ * the next epoch, so removed members cannot read what follows and new members
+ * cannot read what came before.
+ */
+async function currentSenderKey(groupId: string, userId: string, privateKey: CryptoKey, memberIds: string[]): Promise<{ epoch: number; key: CryptoKey }> {
+  const { data: latest, error } = await supabase
+    .from("group_sender_keys")
+    .select("*")
+    .eq("group_id", groupId)
+    .eq("sender_id", userId)
+    .order("epoch", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (latest) {
+    const opened = await openSenderKey(latest, userId, await privateKeysOf(userId, privateKey));
+    if (opened && sameMembers(opened.binding.members, memberIds)) return { epoch: latest.epoch, key: opened.key };
+  }
+
+  const epoch = (latest?.epoch ?? 0) + 1;
+  const key = await generateAESKey();
+  const encrypted_content = await sealSenderKey({ group_id: groupId, sender_id: userId, epoch, members: memberIds }, key);
+  const { error: insertError } = await supabase
+    .from("group_sender_keys")
+    .insert({ group_id: groupId, sender_id: userId, epoch, encrypted_content });
+  if (insertError) throw insertError;
+
+  senderKeys.set(senderKeyId(groupId, userId, epoch), Promise.resolve(key));
+  return { epoch, key };
+}
+
+/** Bound to the row id, which the sender picks, so a stored message cannot be replayed as a new one. */
+function groupMessageSigningPayload(row: Pick<GroupMessageRow, "id" | "sender_id" | "group_id" | "epoch" | "iv" | "content">) {
+  return `${row.id}|${row.sender_id}|${row.group_id}|${row.epoch}|${row.iv}|${row.content}`;
+}
+
+/** Members are read fresh on every send so a removal takes effect from the very next message. */
+export async function sendGroupMessage(groupId: string, userId: string, privateKey: CryptoKey, text: string): Promise<GroupMessageRow> {
+  const memberIds = joinedMembers(await fetchGroupMembers(groupId)).map(m => m.user_id);
+  if (!memberIds.includes(userId)) throw new Error("Not a member of this group");
+  const { epoch, key } = await currentSenderKey(groupId, userId, privateKey, memberIds);
+  const deviceId = getDeviceId(userId);
+  const id = crypto.randomUUID();
+  const { content, iv } = await encryptWithAES(text, key);
+  const signature = await signPayload(deviceId, groupMessageSigningPayload({ id, sender_id: userId, group_id: groupId, epoch, iv, content }));
+
+  const { data, error } = await supabase
+    .from("group_messages")
+    .insert({ id, group_id: groupId, sender_id: userId, sender_device: deviceId, epoch, iv, content, signature })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** The newest page of a group, in display order, limited to what was sent after `since`. */
+export async function fetchGroupMessages(groupId: string, since?: string | null): Promise<GroupMessageRow[]> {
+  let query = supabase
+    .from("group_messages")
+    .select("*")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: false })
+    .limit(GROUP_MESSAGE_PAGE_SIZE);
+  if (since) query = query.gte("created_at", since);
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).reverse();
+}
+
+export async function openGroupMessage(row: GroupMessageRow, userId: string, privateKey: CryptoKey): Promise<GroupMessage> {
+  const opened = (text: string, sender_verified = false): GroupMessage => ({
+    id: row.id, group_id: row.group_id, sender_id: row.sender_id, created_at: row.created_at, text, sender_verified
+  });
+
+  const key = await fetchSenderKey(row.group_id, row.sender_id, row.epoch, userId, privateKey);
+  if (!key) return opened("[Secure Signal: Node mismatch]");
+  try {
+    const text = await decryptWithAES(row.content, row.iv, key);
+    const sender_verified = await verifyPayload(row.sender_id, row.sender_device, groupMessageSigningPayload(row), row.signature, row.created_at);
+    return opened(text || "[Empty Signal]", sender_verified);
+  } catch (e) {
+    console.error(`Group message ${row.id} could not be opened:`, e);
+    return opened("[Secure Signal: Decryption failed]");
+  }
+}
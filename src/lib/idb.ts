@@ -0,0 +1,105 @@
+import { webcrypto } from "@/lib/crypto";
+
+/** Minimal promise wrappers over IndexedDB for the on-device stores. */
+
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const DEVICE_KEY_DATABASE = "chatify-device";
+const DEVICE_KEY_STORE = "keys";
+const DEVICE_KEY_ID = "seal";
+
+let deviceKey: Promise<CryptoKey> | null = null;
+
+async function readDeviceKey(db: IDBDatabase): Promise<CryptoKey | null> {
+  const tx = db.transaction(DEVICE_KEY_STORE);
+  const row = await requestResult(tx.objectStore(DEVICE_KEY_STORE).get(DEVICE_KEY_ID) as IDBRequest<{ key: CryptoKey } | undefined>);
+  return row?.key ?? null;
+}
+
+/**
+ * The key every on-device store is sealed with: a non-extractable AES-GCM key
+ * kept in IndexedDB, so page script can use it but nothing can read its bytes
+ * out of storage. It belongs to this browser rather than to the account key
+ * pair, so rotating or restoring that pair leaves local data readable.
+ */
+export function loadDeviceKey(): Promise<CryptoKey> {
+  if (!deviceKey) {
+    deviceKey = (async () => {
+      const db = await openDatabase(DEVICE_KEY_DATABASE, 1, (db) => {
+        db.createObjectStore(DEVICE_KEY_STORE, { keyPath: "id" });
+      });
+      const existing = await readDeviceKey(db);
+      if (existing) return existing;
+
+      const key = await webcrypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+      try {
+        const tx = db.transaction(DEVICE_KEY_STORE, "readwrite");
+        tx.objectStore(DEVICE_KEY_STORE).add({ id: DEVICE_KEY_ID, key });
+        await transactionDone(tx);
+        return key;
+      } catch (e) {
+        // Another tab stored its key first; everyone has to use that one.
+        const stored = await readDeviceKey(db);
+        if (stored) return stored;
+        throw e;
+      }
+    })();
+    deviceKey.catch(() => { deviceKey = null; });
+  }
+  return deviceKey;
+}
+
+/**
+ * An opener for a per-owner store sealed with the device key. Each owner's
+ * handle is memoized; a failed open is retried next time.
+ */
+export function sealedDatabase<T>(
+  options: { name: string; stores: string[] },
+  create: (db: IDBDatabase, key: CryptoKey, owner: string) => T | Promise<T>
+): (owner: string) => Promise<T> {
+  const opened = new Map<string, Promise<T>>();
+
+  return (owner) => {
+    let store = opened.get(owner);
+    if (!store) {
+      store = (async () => {
+        const [db, key] = await Promise.all([
+          openDatabase(`${options.name}-${owner}`, 1, (db) => {
+            options.stores.forEach(name => db.createObjectStore(name, { keyPath: "id" }));
+          }),
+          loadDeviceKey(),
+        ]);
+        return await create(db, key, owner);
+      })();
+      opened.set(owner, store);
+      store.catch(() => opened.delete(owner));
+    }
+    return store;
+  };
+}
@@ -0,0 +1,38 @@
+import { supabase } from "@/lib/supabase";
+import { encryptPrivateKeyBackup, type PrivateKeyBackup } from "@/lib/crypto";
+
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+export interface StoredKeyBackup extends PrivateKeyBackup {
+  user_id: string;
+  updated_at: string;
+}
+
+export async function fetchKeyBackup(userId: string): Promise<StoredKeyBackup | null> {
+  const { data, error } = await supabase
+    .from("key_backups")
+    .select("user_id, encrypted_key, iv, salt, updated_at")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to fetch key backup:", error);
+    return null;
+  }
+  return data;
+}
+
+export async function saveKeyBackup(userId: string, privateKeyBase64: string, passphrase: string) {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const backup = await encryptPrivateKeyBackup(privateKeyBase64, passphrase);
+  const { error } = await supabase.from("key_backups").upsert({
+    user_id: userId,
+    ...backup,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "user_id" });
+
+  if (error) throw error;
+}
@@ -0,0 +1,123 @@
+import { supabase } from "@/lib/supabase";
+import { generateKeyPair, exportPublicKey, exportPrivateKey, importPrivateKey } from "@/lib/crypto";
+import { getDeviceId, registerDevice } from "@/lib/devices";
+import { decodeEnvelope, encodeEnvelope, rewrapEnvelope, EnvelopeError } from "@/lib/envelope";
+
+const REWRAP_PAGE_SIZE = 200;
+
+export interface KeyRotationProgress {
+  scanned: number;
+  rewrapped: number;
+}
+
+export interface KeyRotationResult extends KeyRotationProgress {
+  privateKeyBase64: string;
+}
+
+const retiredKeys = new Map<string, Promise<CryptoKey[]>>();
+
+function historyStorageKey(userId: string) {
+  return `priv_key_history_${userId}`;
+}
+
+function readRetiredKeys(userId: string): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(historyStorageKey(userId)) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+function retirePrivateKey(userId: string, privateKeyBase64: string) {
+  const history = readRetiredKeys(userId).filter(k => k !== privateKeyBase64);
+  localStorage.setItem(historyStorageKey(userId), JSON.stringify([privateKeyBase64, ...history]));
+  retiredKeys.delete(userId);
+}
+
+/**
+ * Private keys this device used before its latest rotation, newest first.
+ * Messages encrypted by a sender who had not yet seen the new public key still
+ * point at one of these.
+ */
+export function loadRetiredPrivateKeys(userId: string): Promise<CryptoKey[]> {
+  let keys = retiredKeys.get(userId);
+  if (!keys) {
+    keys = Promise.all(readRetiredKeys(userId).map(k => importPrivateKey(k).catch(() => null)))
+      .then(imported => imported.filter((k): k is CryptoKey => k !== null));
+    retiredKeys.set(userId, keys);
+  }
+  return keys;
+}
+
+/**
+ * Replaces the user's RSA key pair without losing history. The new pair is
+ * saved and published first, and the old private key is kept in the local key
+ * history, so an interrupted rotation never strands a message. Every message
+ * key wrapped for this user or this device is then re-wrapped under the new key.
+ */
+export async function rotateKeyPair(
+  userId: string,
+  onProgress?: (progress: KeyRotationProgress) => void
+): Promise<KeyRotationResult> {
+  const oldPrivateKeyBase64 = localStorage.getItem(`priv_key_${userId}`);
+  if (!oldPrivateKeyBase64) throw new Error("No encryption key on this device");
+  const oldKey = await importPrivateKey(oldPrivateKeyBase64);
+
+  const { data: profile } = await supabase.from("profiles").select("public_key").eq("id", userId).single();
+
+  const keyPair = await generateKeyPair();
+  const publicKeyBase64 = await exportPublicKey(keyPair.publicKey);
+  const privateKeyBase64 = await exportPrivateKey(keyPair.privateKey);
+
+  retirePrivateKey(userId, oldPrivateKeyBase64);
+  localStorage.setItem(`priv_key_${userId}`, privateKeyBase64);
+
+  if (profile?.public_key) {
+    const { error: historyError } = await supabase.from("key_history").insert({
+      user_id: userId,
+      public_key: profile.public_key,
+      retired_at: new Date().toISOString(),
+    });
+    if (historyError) throw historyError;
+  }
+
+  const { error: profileError } = await supabase.from("profiles").update({ public_key: publicKeyBase64 }).eq("id", userId);
+  if (profileError) throw profileError;
+  await registerDevice(userId, publicKeyBase64);
+
+  const deviceId = getDeviceId(userId);
+  const progress: KeyRotationProgress = { scanned: 0, rewrapped: 0 };
+
+  for (let from = 0; ; from += REWRAP_PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from("messages")
+      .select("id, encrypted_content")
+      .or(`sender_id.eq.${userId},receiver_id.eq.${userId}`)
+      .order("created_at", { ascending: true })
+      .range(from, from + REWRAP_PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!page?.length) break;
+
+    for (const msg of page) {
+      progress.scanned++;
+      if (!msg.encrypted_content) continue;
+      try {
+        const next = await rewrapEnvelope(decodeEnvelope(msg.encrypted_content), userId, deviceId, oldKey, keyPair.publicKey);
+        if (!next) continue;
+        const { error: updateError } = await supabase
+          .from("messages")
+          .update({ encrypted_content: encodeEnvelope(next) })
+          .eq("id", msg.id);
+        if (updateError) throw updateError;
+        progress.rewrapped++;
+      } catch (e) {
+        // Messages we cannot open stay as they are; the retired key still covers them.
+        if (!(e instanceof EnvelopeError)) console.error(`Could not re-wrap message ${msg.id}`, e);
+      }
+    }
+    onProgress?.({ ...progress });
+    if (page.length < REWRAP_PAGE_SIZE) break;
+  }
+
+  return { ...progress, privateKeyBase64 };
+}
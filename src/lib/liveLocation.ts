@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { supabase } from "@/lib/supabase";
+import { encryptWithAES, decryptWithAES } from "@/lib/crypto";
+import type { MessageMeta } from "@/lib/envelope";
+
+export const LIVE_LOCATION_DURATIONS = [
+  { label: "15 min", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "8 hours", minutes: 480 },
+] as const;
+
+/** Positions are published at most this often while sharing live. */
+export const LIVE_LOCATION_INTERVAL_MS = 10_000;
+
+const locationFixSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+  stopped: z.boolean().optional(),
+});
+
+export type LocationFix = z.infer<typeof locationFixSchema>;
+
+export interface LiveLocationRow {
+  message_id: string;
+  sender_id: string;
+  iv: string;
+  content: string;
+  updated_at: string;
+}
+
+export interface LiveLocation extends LocationFix {
+  updated_at: string;
+}
+
+export async function fetchLiveLocationRows(messageIds: string[]): Promise<LiveLocationRow[]> {
+  if (messageIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("live_locations")
+    .select("*")
+    .in("message_id", messageIds);
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Each update is encrypted afresh with the key of the location message, so
+ * only the two participants can follow the sender's position.
+ */
+export async function openLiveLocation(row: LiveLocationRow, messageKey: CryptoKey): Promise<LiveLocation | null> {
+  try {
+    const decrypted = await decryptWithAES(row.content, row.iv, messageKey);
+    const result = locationFixSchema.safeParse(JSON.parse(decrypted));
+    return result.success ? { ...result.data, updated_at: row.updated_at } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Replaces the latest position for a live location message. */
+export async function publishLiveLocation(messageId: string, senderId: string, fix: LocationFix, messageKey: CryptoKey) {
+  const { content, iv } = await encryptWithAES(JSON.stringify(locationFixSchema.parse(fix)), messageKey);
+  const { error } = await supabase.from("live_locations").upsert({
+    message_id: messageId,
+    sender_id: senderId,
+    iv,
+    content,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: "message_id" });
+  if (error) throw error;
+}
+
+/** Live until the chosen duration runs out or the sender stops sharing. */
+export function isLiveLocationActive(location: MessageMeta["location"], latest: LiveLocation | undefined, now = Date.now()): boolean {
+  if (!location?.live_until || latest?.stopped) return false;
+  return now < new Date(location.live_until).getTime();
+}
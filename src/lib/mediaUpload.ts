@@ -0,0 +1,41 @@
+import { supabase } from "@/lib/supabase";
+
+const MEDIA_BUCKET = "chat-media";
+
+/**
+ * Uploads an already encrypted blob to `chat-media` and returns its public URL.
+ * It goes through a signed upload URL with XHR because fetch reports no upload progress.
+ * Existing objects are overwritten so a retried send can reuse its path.
+ */
+export async function uploadEncryptedMedia(
+  filePath: string,
+  encryptedBlob: Blob,
+  onProgress?: (fraction: number) => void
+): Promise<string> {
+  const { data, error } = await supabase.storage.from(MEDIA_BUCKET).createSignedUploadUrl(filePath, { upsert: true });
+  if (error || !data) throw error || new Error("Could not create an upload URL");
+
+  // Same body shape as storage-js uploadToSignedUrl.
+  const body = new FormData();
+  body.append("cacheControl", "3600");
+  body.append("", encryptedBlob);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", data.signedUrl);
+    xhr.setRequestHeader("x-upsert", "true");
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) resolve();
+      else reject(new Error(`Media upload failed with ${xhr.status}`));
+    };
+    xhr.onerror = () => reject(new Error("Media upload failed"));
+    xhr.send(body);
+  });
+
+  onProgress?.(1);
+  const { data: { publicUrl } } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(filePath);
+  return publicUrl;
+}
@@ -0,0 +1,141 @@
+import { encryptWithAES, decryptWithAES, encryptBlob, decryptToBlob } from "@/lib/crypto";
+import { sealedDatabase, requestResult, transactionDone } from "@/lib/idb";
+
+const MESSAGES = "messages";
+const MEDIA = "media";
+
+/** Decrypted media larger than this is downloaded again rather than kept on the device. */
+export const MEDIA_CACHE_MAX_BYTES = 25 * 1024 * 1024;
+
+/** A message as Chat renders it, together with its raw message key. */
+export interface CachedMessage {
+  message: any;
+  key: string;
+}
+
+/** Routing fields in the clear; the opened message and its key are sealed with the cache key. */
+interface StoredMessage {
+  id: string;
+  contact_id: string;
+  created_at: string;
+  iv: string;
+  content: string;
+}
+
+interface StoredMedia {
+  id: string;
+  iv: string;
+  mime: string;
+  blob: Blob;
+}
+
+/**
+ * Decrypted messages and media this device has already opened, so a chat can
+ * paint before the server answers. Everything is encrypted at rest with a key
+ * derived from this device's private key.
+ */
+export class MessageCache {
+  constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  async put(contactId: string, entries: CachedMessage[]) {
+    if (entries.length === 0) return;
+    const stored = await Promise.all(entries.map(async (entry): Promise<StoredMessage> => {
+      const { content, iv } = await encryptWithAES(JSON.stringify(entry), this.key);
+      return { id: entry.message.id, contact_id: contactId, created_at: entry.message.created_at, iv, content };
+    }));
+
+    const tx = this.db.transaction(MESSAGES, "readwrite");
+    stored.forEach(row => tx.objectStore(MESSAGES).put(row));
+    await transactionDone(tx);
+  }
+
+  async get(ids: string[]): Promise<Map<string, CachedMessage>> {
+    const store = this.db.transaction(MESSAGES).objectStore(MESSAGES);
+    const rows = await Promise.all(ids.map(id => requestResult(store.get(id) as IDBRequest<StoredMessage | undefined>)));
+    return this.open(rows.filter((row): row is StoredMessage => !!row));
+  }
+
+  /** The newest cached messages of a conversation, in display order. */
+  async latest(contactId: string, limit: number): Promise<CachedMessage[]> {
+    const rows = (await this.conversation(contactId))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(-limit);
+    const opened = await this.open(rows);
+    return rows.map(row => opened.get(row.id)).filter((entry): entry is CachedMessage => !!entry);
+  }
+
+  /**
+   * Drops cached messages of a conversation that the server no longer has. Only
+   * the span a server page covered is checked: strictly after `after` and
+   * strictly before `before`, either end open when omitted.
+   */
+  async retain(contactId: string, keepIds: string[], after?: string, before?: string) {
+    const keep = new Set(keepIds);
+    const gone = (await this.conversation(contactId)).filter(row =>
+      !keep.has(row.id) && (!after || row.created_at > after) && (!before || row.created_at < before)
+    );
+    await this.remove(gone.map(row => row.id));
+  }
+
+  async removeConversation(contactId: string) {
+    await this.retain(contactId, []);
+  }
+
+  async remove(ids: string[]) {
+    if (ids.length === 0) return;
+    const tx = this.db.transaction([MESSAGES, MEDIA], "readwrite");
+    ids.forEach(id => {
+      tx.objectStore(MESSAGES).delete(id);
+      tx.objectStore(MEDIA).delete(id);
+    });
+    await transactionDone(tx);
+  }
+
+  async putMedia(id: string, blob: Blob) {
+    if (blob.size > MEDIA_CACHE_MAX_BYTES) return;
+    const { encryptedBlob, iv } = await encryptBlob(blob, this.key);
+    const tx = this.db.transaction(MEDIA, "readwrite");
+    tx.objectStore(MEDIA).put({ id, iv, mime: blob.type, blob: encryptedBlob } satisfies StoredMedia);
+    await transactionDone(tx);
+  }
+
+  async getMedia(id: string): Promise<Blob | null> {
+    const row = await requestResult(this.db.transaction(MEDIA).objectStore(MEDIA).get(id) as IDBRequest<StoredMedia | undefined>);
+    if (!row) return null;
+    try {
+      return await decryptToBlob(await row.blob.arrayBuffer(), row.iv, this.key, row.mime);
+    } catch {
+      const tx = this.db.transaction(MEDIA, "readwrite");
+      tx.objectStore(MEDIA).delete(id);
+      await transactionDone(tx);
+      return null;
+    }
+  }
+
+  private async conversation(contactId: string): Promise<StoredMessage[]> {
+    const rows = await requestResult(this.db.transaction(MESSAGES).objectStore(MESSAGES).getAll() as IDBRequest<StoredMessage[]>);
+    return rows.filter(row => row.contact_id === contactId);
+  }
+
+  /** Rows that no longer open are dropped; the conversation refills them from the server. */
+  private async open(rows: StoredMessage[]): Promise<Map<string, CachedMessage>> {
+    const entries = new Map<string, CachedMessage>();
+    const unreadable: string[] = [];
+
+    await Promise.all(rows.map(async row => {
+      try {
+        entries.set(row.id, JSON.parse(await decryptWithAES(row.content, row.iv, this.key)));
+      } catch {
+        unreadable.push(row.id);
+      }
+    }));
+
+    await this.remove(unreadable);
+    return entries;
+  }
+}
+
+export const openMessageCache = sealedDatabase(
+  { name: "chatify-cache", stores: [MESSAGES, MEDIA] },
+  (db, key) => new MessageCache(db, key)
+);
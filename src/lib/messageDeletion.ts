@@ -0,0 +1,38 @@
+import { supabase } from "@/lib/supabase";
+
+/** Which of the given messages the user has deleted for themselves. */
+export async function fetchHiddenMessageIds(userId: string, messageIds: string[]): Promise<Set<string>> {
+  if (messageIds.length === 0) return new Set();
+  const { data, error } = await supabase
+    .from("message_tombstones")
+    .select("message_id")
+    .eq("user_id", userId)
+    .in("message_id", messageIds);
+  if (error) throw error;
+  return new Set((data || []).map(row => row.message_id as string));
+}
+
+/** Hides a message from the user's own view; the partner still sees it. */
+export async function hideMessageForMe(userId: string, messageId: string) {
+  const { error } = await supabase
+    .from("message_tombstones")
+    .upsert({ user_id: userId, message_id: messageId }, { onConflict: "user_id,message_id" });
+  if (error) throw error;
+}
+
+/**
+ * Wipes the message for both sides. Only the sender may do this, as proven by
+ * their session token; the server clears the ciphertext and media and leaves
+ * the row behind as a placeholder.
+ */
+export async function deleteMessageForEveryone(messageId: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch("/api/messages/delete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+    body: JSON.stringify({ messageId })
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || "Failed to delete message");
+  return result.deleted_at;
+}
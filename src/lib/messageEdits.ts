@@ -0,0 +1,80 @@
+import { supabase } from "@/lib/supabase";
+import { decryptWithAES } from "@/lib/crypto";
+
+export const MESSAGE_EDIT_WINDOW_MINUTES = Number(process.env.NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES) || 15;
+
+export interface MessageEditRow {
+  id: string;
+  message_id: string;
+  editor_id: string;
+  iv: string;
+  content: string;
+  created_at: string;
+}
+
+export interface MessageVersion {
+  text: string;
+  replaced_at: string;
+}
+
+/** When a message stops being editable, in milliseconds since the epoch. */
+export function editDeadline(msg: { created_at: string }): number {
+  return new Date(msg.created_at).getTime() + MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+export function canEditMessage(msg: any, userId: string): boolean {
+  if (msg.sender_id !== userId || msg.deleted_at || (msg.media_type && msg.media_type !== "text")) return false;
+  return Date.now() < editDeadline(msg);
+}
+
+/** Whether a message carries an edit made after its window closed, which the server should never have let through. */
+export function isLateEdit(msg: any): boolean {
+  return !!msg.edited_at && new Date(msg.edited_at).getTime() >= editDeadline(msg);
+}
+
+/**
+ * Replaces a message's content through the server, which checks the edit
+ * window and keeps the replaced ciphertext; it stays readable with the
+ * message's own key. Resolves to the server's `edited_at`.
+ */
+export async function submitEdit(messageId: string, encryptedContent: string): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch("/api/messages/edit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+    body: JSON.stringify({ messageId, encryptedContent })
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(result.error || "Failed to edit message");
+  return result.edited_at;
+}
+
+/** Previous versions of a message, oldest first. */
+export async function fetchEditHistory(messageId: string, messageKey: CryptoKey): Promise<MessageVersion[]> {
+  const { data, error } = await supabase
+    .from("message_edits")
+    .select("*")
+    .eq("message_id", messageId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  return await Promise.all((data as MessageEditRow[] || []).map(async (row) => {
+    let text: string;
+    try {
+      text = await decryptWithAES(row.content, row.iv, messageKey);
+    } catch {
+      text = "[Secure Signal: Decryption failed]";
+    }
+    return { text, replaced_at: row.created_at };
+  }));
+}
+
+/**
+ * The text a message had when its edit window closed: the version replaced by
+ * the first edit after the deadline, or null if no such version was kept.
+ */
+export async function textAtEditDeadline(msg: any, messageKey: CryptoKey): Promise<string | null> {
+  const deadline = editDeadline(msg);
+  const history = await fetchEditHistory(msg.id, messageKey);
+  return history.find(version => new Date(version.replaced_at).getTime() >= deadline)?.text ?? null;
+}
@@ -0,0 +1,78 @@
+import { encryptWithAES, decryptWithAES, importAESKey } from "@/lib/crypto";
+import { sealedDatabase, requestResult, transactionDone } from "@/lib/idb";
+
+const STORE = "keys";
+
+/** Which message a key belongs to, so keys can be pruned along with the conversation. */
+export interface MessageKeyOwner {
+  id: string;
+  contact_id: string;
+  created_at: string;
+}
+
+interface StoredKey extends MessageKeyOwner {
+  iv: string;
+  content: string;
+}
+
+/**
+ * Ratchet message keys are single-use, so each device remembers the keys of
+ * messages it has already opened, and of its own messages, which it never
+ * seals for itself. They are sealed with the device key and pruned with the
+ * conversation: purging a message purges its key, which is what keeps deleted
+ * history unrecoverable even if this device is later compromised.
+ */
+export class MessageKeyStore {
+  constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  async put(owner: MessageKeyOwner, rawKeyBase64: string) {
+    const { content, iv } = await encryptWithAES(rawKeyBase64, this.key);
+    const tx = this.db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({ ...owner, iv, content } satisfies StoredKey);
+    await transactionDone(tx);
+  }
+
+  async get(id: string): Promise<CryptoKey | null> {
+    const row = await requestResult(this.db.transaction(STORE).objectStore(STORE).get(id) as IDBRequest<StoredKey | undefined>);
+    if (!row) return null;
+    try {
+      return await importAESKey(await decryptWithAES(row.content, row.iv, this.key));
+    } catch (e) {
+      // Kept rather than deleted: a ratchet key can't be fetched again, so a row that fails now is still worth having.
+      console.error(`Message key ${id} could not be opened:`, e);
+      return null;
+    }
+  }
+
+  async remove(ids: string[]) {
+    if (ids.length === 0) return;
+    const tx = this.db.transaction(STORE, "readwrite");
+    ids.forEach(id => tx.objectStore(STORE).delete(id));
+    await transactionDone(tx);
+  }
+
+  /**
+   * Drops keys of a conversation's messages that the server no longer has,
+   * within the span a server page covered (see MessageCache.retain). Keys
+   * dated in the future belong to scheduled messages that aren't sent yet.
+   */
+  async retain(contactId: string, keepIds: string[], after?: string, before?: string) {
+    const keep = new Set(keepIds);
+    const now = new Date().toISOString();
+    const rows = await requestResult(this.db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredKey[]>);
+    await this.remove(rows.filter(row =>
+      row.contact_id === contactId && !keep.has(row.id) && row.created_at <= now
+        && (!after || row.created_at > after) && (!before || row.created_at < before)
+    ).map(row => row.id));
+  }
+
+  async removeConversation(contactId: string) {
+    const rows = await requestResult(this.db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredKey[]>);
+    await this.remove(rows.filter(row => row.contact_id === contactId).map(row => row.id));
+  }
+}
+
+export const openMessageKeys = sealedDatabase(
+  { name: "chatify-keys", stores: [STORE] },
+  (db, key) => new MessageKeyStore(db, key)
+);
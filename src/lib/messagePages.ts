@@ -0,0 +1,43 @@
+import { supabase } from "@/lib/supabase";
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePage {
+  messages: any[];
+  hasMore: boolean;
+}
+
+export function cursorOf(message: { created_at: string; id: string }): MessageCursor {
+  return { created_at: message.created_at, id: message.id };
+}
+
+/**
+ * Loads one page of a conversation, newest first on the wire but returned in
+ * display order. Pages are keyed on (created_at, id) so messages sharing a
+ * timestamp are neither skipped nor repeated between pages.
+ */
+export async function fetchMessagePage(userId: string, contactId: string, before?: MessageCursor): Promise<MessagePage> {
+  const older = before
+    ? `,or(created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id}))`
+    : "";
+
+  const { data, error } = await supabase
+    .from("messages")
+    .select("*")
+    .or(`and(sender_id.eq.${userId},receiver_id.eq.${contactId}${older}),and(sender_id.eq.${contactId},receiver_id.eq.${userId}${older})`)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (error) throw error;
+  const rows = data || [];
+  return {
+    messages: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+    hasMore: rows.length > MESSAGE_PAGE_SIZE,
+  };
+}
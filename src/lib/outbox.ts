@@ -0,0 +1,104 @@
+import { encryptWithAES, decryptWithAES, encryptBlob, decryptToBlob } from "@/lib/crypto";
+import { sealedDatabase, requestResult, transactionDone } from "@/lib/idb";
+import type { MessageMeta } from "@/lib/envelope";
+
+const STORE = "messages";
+
+export type OutboxStatus = "pending" | "failed";
+
+/** Everything needed to send the message again from scratch. */
+export interface OutboxDraft {
+  text: string;
+  media_type: string;
+  media?: Blob;
+  meta: MessageMeta;
+  auto_delete_mode: string;
+  /** The message key, fixed up front so every attempt produces the same ciphertext key. */
+  key: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  contact_id: string;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  draft: OutboxDraft;
+}
+
+/** The draft is sealed with a device-local key; a queued message is never at rest in the clear. */
+interface StoredOutboxEntry {
+  id: string;
+  contact_id: string;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  iv: string;
+  content: string;
+  media?: { iv: string; mime: string; blob: Blob };
+}
+
+export class Outbox {
+  constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  async put(entry: OutboxEntry) {
+    const { media, ...draft } = entry.draft;
+    const { content, iv } = await encryptWithAES(JSON.stringify(draft), this.key);
+    let sealedMedia: StoredOutboxEntry["media"];
+    if (media) {
+      const { encryptedBlob, iv: mediaIv } = await encryptBlob(media, this.key);
+      sealedMedia = { iv: mediaIv, mime: media.type, blob: encryptedBlob };
+    }
+
+    const tx = this.db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({
+      id: entry.id,
+      contact_id: entry.contact_id,
+      created_at: entry.created_at,
+      status: entry.status,
+      attempts: entry.attempts,
+      iv,
+      content,
+      media: sealedMedia,
+    } satisfies StoredOutboxEntry);
+    await transactionDone(tx);
+  }
+
+  async setStatus(id: string, status: OutboxStatus, attempts: number) {
+    const row = await requestResult(this.db.transaction(STORE).objectStore(STORE).get(id) as IDBRequest<StoredOutboxEntry | undefined>);
+    if (!row) return;
+    const tx = this.db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({ ...row, status, attempts });
+    await transactionDone(tx);
+  }
+
+  async remove(id: string) {
+    const tx = this.db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  /** Queued messages for one conversation, oldest first. Entries that fail to open are skipped but kept. */
+  async list(contactId: string): Promise<OutboxEntry[]> {
+    const rows = await requestResult(this.db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredOutboxEntry[]>);
+    const entries: OutboxEntry[] = [];
+
+    for (const row of rows.filter(r => r.contact_id === contactId)) {
+      try {
+        const draft: OutboxDraft = JSON.parse(await decryptWithAES(row.content, row.iv, this.key));
+        if (row.media) {
+          draft.media = await decryptToBlob(await row.media.blob.arrayBuffer(), row.media.iv, this.key, row.media.mime);
+        }
+        entries.push({ id: row.id, contact_id: row.contact_id, created_at: row.created_at, status: row.status, attempts: row.attempts, draft });
+      } catch (e) {
+        console.error(`Outbox entry ${row.id} could not be opened:`, e);
+      }
+    }
+    return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+}
+
+export const openOutbox = sealedDatabase(
+  { name: "chatify-outbox", stores: [STORE] },
+  (db, key) => new Outbox(db, key)
+);
@@ -0,0 +1,259 @@
+import { base64ToBuffer, bufferToBase64, webcrypto } from "@/lib/crypto";
+
+const ECDH_PARAMS = { name: "ECDH", namedCurve: "P-256" } as const;
+const MAX_SKIP = 500;
+const X3DH_INFO = "chatify-x3dh-v1";
+const RATCHET_INFO = "chatify-ratchet-v1";
+
+export interface SerializedKeyPair {
+  pub: string;
+  priv: JsonWebKey;
+}
+
+export interface PrekeyHeader {
+  ik: string;
+  ek: string;
+  spk_id: string;
+  opk_id: string | null;
+}
+
+export interface RatchetHeader {
+  sid: string;
+  dh: string;
+  pn: number;
+  n: number;
+  prekey?: PrekeyHeader;
+}
+
+export interface PrekeyBundle {
+  identity_key: string;
+  signed_prekey: string;
+  signed_prekey_id: string;
+  one_time_prekey: { id: string; public_key: string } | null;
+}
+
+export interface SessionState {
+  sid: string;
+  rootKey: string;
+  dhSelf: SerializedKeyPair;
+  dhRemote: string | null;
+  sendChain: string | null;
+  recvChain: string | null;
+  sendN: number;
+  recvN: number;
+  prevSendN: number;
+  skipped: Record<string, string>;
+  pendingPrekey: PrekeyHeader | null;
+  remoteIdentity: string;
+}
+
+export async function generateDHKeyPair(): Promise<SerializedKeyPair> {
+  const pair = await webcrypto.subtle.generateKey(ECDH_PARAMS, true, ["deriveBits"]);
+  const pub = await webcrypto.subtle.exportKey("raw", pair.publicKey);
+  const priv = await webcrypto.subtle.exportKey("jwk", pair.privateKey);
+  return { pub: bufferToBase64(pub), priv };
+}
+
+async function dh(own: SerializedKeyPair, remotePub: string): Promise<Uint8Array<ArrayBuffer>> {
+  const privateKey = await webcrypto.subtle.importKey("jwk", own.priv, ECDH_PARAMS, false, ["deriveBits"]);
+  const publicKey = await webcrypto.subtle.importKey("raw", base64ToBuffer(remotePub), ECDH_PARAMS, false, []);
+  const bits = await webcrypto.subtle.deriveBits({ name: "ECDH", public: publicKey }, privateKey, 256);
+  return new Uint8Array(bits);
+}
+
+async function hkdf(ikm: Uint8Array<ArrayBuffer>, salt: Uint8Array<ArrayBuffer>, info: string, length: number) {
+  const key = await webcrypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+  const bits = await webcrypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt, info: new TextEncoder().encode(info) },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+async function hmac(keyBytes: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>) {
+  const key = await webcrypto.subtle.importKey("raw", keyBytes, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return new Uint8Array(await webcrypto.subtle.sign("HMAC", key, data));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+async function kdfRoot(rootKey: string, dhOut: Uint8Array<ArrayBuffer>): Promise<[string, string]> {
+  const out = await hkdf(dhOut, base64ToBuffer(rootKey), RATCHET_INFO, 64);
+  return [bufferToBase64(out.slice(0, 32).buffer), bufferToBase64(out.slice(32).buffer)];
+}
+
+async function kdfChain(chainKey: string): Promise<[string, Uint8Array<ArrayBuffer>]> {
+  const ck = base64ToBuffer(chainKey);
+  const messageKey = await hmac(ck, new Uint8Array([1]));
+  const nextChain = await hmac(ck, new Uint8Array([2]));
+  return [bufferToBase64(nextChain.buffer), messageKey];
+}
+
+async function deriveSharedSecret(dhOutputs: Uint8Array[]) {
+  // 32 bytes of 0xFF as in X3DH, so the input never starts with a valid point encoding.
+  const ikm = concat(new Uint8Array(32).fill(0xff), ...dhOutputs);
+  return bufferToBase64((await hkdf(ikm, new Uint8Array(32), X3DH_INFO, 32)).buffer);
+}
+
+function headerAad(header: RatchetHeader) {
+  return new TextEncoder().encode(`${header.sid}|${header.dh}|${header.pn}|${header.n}`);
+}
+
+export async function initiateSession(identity: SerializedKeyPair, bundle: PrekeyBundle): Promise<SessionState> {
+  const ephemeral = await generateDHKeyPair();
+  const outputs = [
+    await dh(identity, bundle.signed_prekey),
+    await dh(ephemeral, bundle.identity_key),
+    await dh(ephemeral, bundle.signed_prekey),
+  ];
+  if (bundle.one_time_prekey) {
+    outputs.push(await dh(ephemeral, bundle.one_time_prekey.public_key));
+  }
+  const sharedSecret = await deriveSharedSecret(outputs);
+
+  const dhSelf = await generateDHKeyPair();
+  const [rootKey, sendChain] = await kdfRoot(sharedSecret, await dh(dhSelf, bundle.signed_prekey));
+
+  return {
+    sid: ephemeral.pub,
+    rootKey,
+    dhSelf,
+    dhRemote: bundle.signed_prekey,
+    sendChain,
+    recvChain: null,
+    sendN: 0,
+    recvN: 0,
+    prevSendN: 0,
+    skipped: {},
+    pendingPrekey: {
+      ik: identity.pub,
+      ek: ephemeral.pub,
+      spk_id: bundle.signed_prekey_id,
+      opk_id: bundle.one_time_prekey?.id ?? null,
+    },
+    remoteIdentity: bundle.identity_key,
+  };
+}
+
+export async function acceptSession(
+  identity: SerializedKeyPair,
+  signedPrekey: SerializedKeyPair,
+  oneTimePrekey: SerializedKeyPair | null,
+  prekey: PrekeyHeader
+): Promise<SessionState> {
+  const outputs = [
+    await dh(signedPrekey, prekey.ik),
+    await dh(identity, prekey.ek),
+    await dh(signedPrekey, prekey.ek),
+  ];
+  if (oneTimePrekey) {
+    outputs.push(await dh(oneTimePrekey, prekey.ek));
+  }
+
+  return {
+    sid: prekey.ek,
+    rootKey: await deriveSharedSecret(outputs),
+    dhSelf: signedPrekey,
+    dhRemote: null,
+    sendChain: null,
+    recvChain: null,
+    sendN: 0,
+    recvN: 0,
+    prevSendN: 0,
+    skipped: {},
+    pendingPrekey: null,
+    remoteIdentity: prekey.ik,
+  };
+}
+
+export async function ratchetEncrypt(session: SessionState, plaintext: Uint8Array<ArrayBuffer>) {
+  if (!session.sendChain) {
+    throw new Error("Session cannot send before it has received a message");
+  }
+  const state: SessionState = structuredClone(session);
+  const [nextChain, messageKey] = await kdfChain(state.sendChain!);
+
+  const header: RatchetHeader = { sid: state.sid, dh: state.dhSelf.pub, pn: state.prevSendN, n: state.sendN };
+  if (state.pendingPrekey) header.prekey = state.pendingPrekey;
+
+  state.sendChain = nextChain;
+  state.sendN += 1;
+
+  const iv = webcrypto.getRandomValues(new Uint8Array(12));
+  const key = await webcrypto.subtle.importKey("raw", messageKey, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = await webcrypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: headerAad(header), tagLength: 128 },
+    key,
+    plaintext
+  );
+
+  return { state, header, iv: bufferToBase64(iv.buffer), ciphertext: bufferToBase64(ciphertext) };
+}
+
+async function skipMessageKeys(state: SessionState, until: number) {
+  if (!state.recvChain) return;
+  if (state.recvN + MAX_SKIP < until) {
+    throw new Error("Too many skipped messages in ratchet chain");
+  }
+  while (state.recvN < until) {
+    const [nextChain, messageKey] = await kdfChain(state.recvChain);
+    state.skipped[`${state.dhRemote}:${state.recvN}`] = bufferToBase64(messageKey.buffer);
+    state.recvChain = nextChain;
+    state.recvN += 1;
+  }
+}
+
+async function dhRatchet(state: SessionState, header: RatchetHeader) {
+  state.prevSendN = state.sendN;
+  state.sendN = 0;
+  state.recvN = 0;
+  state.dhRemote = header.dh;
+  [state.rootKey, state.recvChain] = await kdfRoot(state.rootKey, await dh(state.dhSelf, state.dhRemote));
+  state.dhSelf = await generateDHKeyPair();
+  [state.rootKey, state.sendChain] = await kdfRoot(state.rootKey, await dh(state.dhSelf, state.dhRemote));
+}
+
+/**
+ * Works on a copy of the session so a forged or corrupted message can never
+ * advance the real ratchet; callers persist the returned state only on success.
+ */
+export async function ratchetDecrypt(session: SessionState, header: RatchetHeader, iv: string, ciphertext: string) {
+  const state: SessionState = structuredClone(session);
+  const skippedId = `${header.dh}:${header.n}`;
+  let messageKey: Uint8Array<ArrayBuffer>;
+
+  if (state.skipped[skippedId]) {
+    messageKey = base64ToBuffer(state.skipped[skippedId]);
+    delete state.skipped[skippedId];
+  } else {
+    if (header.dh !== state.dhRemote) {
+      await skipMessageKeys(state, header.pn);
+      await dhRatchet(state, header);
+    }
+    await skipMessageKeys(state, header.n);
+    const [nextChain, key] = await kdfChain(state.recvChain!);
+    state.recvChain = nextChain;
+    state.recvN += 1;
+    messageKey = key;
+  }
+
+  const key = await webcrypto.subtle.importKey("raw", messageKey, "AES-GCM", false, ["decrypt"]);
+  const plaintext = await webcrypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBuffer(iv), additionalData: headerAad(header), tagLength: 128 },
+    key,
+    base64ToBuffer(ciphertext)
+  );
+
+  // The peer answered on this session, so it no longer needs our prekey header.
+  state.pendingPrekey = null;
+  return { state, plaintext: new Uint8Array(plaintext) };
+}
@@ -0,0 +1,74 @@
+import { supabase } from "@/lib/supabase";
+import { encryptWithAES, decryptWithAES } from "@/lib/crypto";
+
+export const REACTION_KINDS = ["heart", "thumbs_up", "smile", "meh", "frown"] as const;
+
+export type ReactionKind = typeof REACTION_KINDS[number];
+
+export interface ReactionRow {
+  id: string;
+  message_id: string;
+  user_id: string;
+  encrypted_reaction: string;
+  iv: string;
+  created_at: string;
+}
+
+export interface Reaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  kind: ReactionKind;
+}
+
+export async function fetchReactionRows(messageIds: string[]): Promise<ReactionRow[]> {
+  if (messageIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("message_reactions")
+    .select("*")
+    .in("message_id", messageIds);
+  if (error) throw error;
+  return data || [];
+}
+
+/** Binds a reaction's ciphertext to its row, so it can't be moved to another message or reactor. */
+function reactionAdditionalData(messageId: string, userId: string) {
+  return `reaction|${messageId}|${userId}`;
+}
+
+/**
+ * Reactions are encrypted with the key of the message they belong to, so only
+ * people who can read the message can see how anyone reacted to it.
+ */
+export async function openReaction(row: ReactionRow, messageKey: CryptoKey): Promise<Reaction | null> {
+  try {
+    const kind = await decryptWithAES(row.encrypted_reaction, row.iv, messageKey, reactionAdditionalData(row.message_id, row.user_id));
+    if (!(REACTION_KINDS as readonly string[]).includes(kind)) return null;
+    return { id: row.id, message_id: row.message_id, user_id: row.user_id, kind: kind as ReactionKind };
+  } catch {
+    return null;
+  }
+}
+
+/** Sets or clears the current user's single reaction on a message. */
+export async function setReaction(messageId: string, userId: string, kind: ReactionKind | null, messageKey: CryptoKey) {
+  if (!kind) {
+    const { error } = await supabase
+      .from("message_reactions")
+      .delete()
+      .eq("message_id", messageId)
+      .eq("user_id", userId);
+    if (error) throw error;
+    return;
+  }
+
+  const { content, iv } = await encryptWithAES(kind, messageKey, reactionAdditionalData(messageId, userId));
+  const { error } = await supabase.from("message_reactions").upsert({
+    message_id: messageId,
+    user_id: userId,
+    encrypted_reaction: content,
+    iv,
+    created_at: new Date().toISOString(),
+  }, { onConflict: "message_id,user_id" });
+  if (error) throw error;
+}
@@ -0,0 +1,56 @@
+import { supabase } from "@/lib/supabase";
+
+/** What a user lets their contacts learn about messages reaching and being read by them. */
+export interface ReceiptPreferences {
+  read_receipts: boolean;
+  delivery_receipts: boolean;
+}
+
+export type ReceiptStatus = "viewed" | "delivered" | "sent";
+
+/** What to assume while a user's preferences can't be read, so nothing they may have hidden leaks. */
+export const PRIVATE_RECEIPT_PREFERENCES: ReceiptPreferences = { read_receipts: false, delivery_receipts: false };
+
+/** Receipts are on unless the user has turned them off. */
+export async function fetchReceiptPreferences(userId: string): Promise<ReceiptPreferences> {
+  const { data, error } = await supabase.from("profiles").select("read_receipts, delivery_receipts").eq("id", userId).maybeSingle();
+  if (error) throw error;
+  return {
+    read_receipts: data?.read_receipts !== false,
+    delivery_receipts: data?.delivery_receipts !== false,
+  };
+}
+
+/** `snapshot_view` counts one opening of a received snapshot rather than moving it along. */
+export type MessageTransition = "delivered" | "viewed" | "snapshot_view";
+
+/**
+ * Moves messages the user received to delivered or viewed in one call, or
+ * counts a snapshot view. The server enforces the order of transitions and
+ * the snapshot view limit, applies the user's receipt preferences and starts
+ * disappearing timers, so `is_viewed`, `view_count` and `expires_at` are only
+ * written through this route.
+ */
+export async function markMessages(messageIds: string[], status: MessageTransition) {
+  if (messageIds.length === 0) return;
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch("/api/messages/status", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+    body: JSON.stringify({ messageIds, status })
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.error || "Failed to update message status");
+  }
+}
+
+/**
+ * The tick a sender sees. Receipts are reciprocal: someone who hides a kind of
+ * receipt doesn't see it from others either.
+ */
+export function receiptStatus(message: any, prefs: ReceiptPreferences): ReceiptStatus {
+  if (prefs.read_receipts && message.viewed_at) return "viewed";
+  if (prefs.delivery_receipts && message.is_delivered) return "delivered";
+  return "sent";
+}
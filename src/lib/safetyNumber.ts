@@ -0,0 +1,143 @@
+import { supabase } from "@/lib/supabase";
+import { base64ToBuffer, webcrypto } from "@/lib/crypto";
+
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_VERSION = 1;
+
+export type KeyTrustStatus = "unverified" | "verified" | "changed";
+
+interface RememberedKey {
+  safetyNumber: string;
+  verified: boolean;
+  version?: number;
+}
+
+/**
+ * Every key that speaks for each user: the account key, then the identity and
+ * signing keys of each active device in device order. Users without an
+ * account key are left out.
+ */
+export async function fetchIdentityKeys(userIds: string[]): Promise<Map<string, string[]>> {
+  const [{ data: profiles, error: profilesError }, { data: devices, error: devicesError }] = await Promise.all([
+    supabase.from("profiles").select("id, public_key").in("id", userIds),
+    supabase
+      .from("devices")
+      .select("id, user_id, identity_key, signing_key")
+      .in("user_id", userIds)
+      .is("revoked_at", null)
+      .order("id", { ascending: true }),
+  ]);
+  if (profilesError) throw profilesError;
+  if (devicesError) throw devicesError;
+
+  const keys = new Map<string, string[]>();
+  for (const profile of profiles || []) {
+    if (profile.public_key) keys.set(profile.id, [profile.public_key]);
+  }
+  for (const device of devices || []) {
+    const userKeys = keys.get(device.user_id);
+    if (!userKeys) continue;
+    if (device.identity_key) userKeys.push(device.identity_key);
+    if (device.signing_key) userKeys.push(device.signing_key);
+  }
+  return keys;
+}
+
+async function fingerprintDigits(userId: string, keysBase64: string[]): Promise<string> {
+  const encoder = new TextEncoder();
+  const parts = keysBase64.map(base64ToBuffer);
+  const keyBytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    keyBytes.set(part, offset);
+    offset += part.length;
+  }
+  const idBytes = encoder.encode(userId);
+
+  let hash = new Uint8Array(2 + keyBytes.length + idBytes.length);
+  hash.set([0, FINGERPRINT_VERSION]);
+  hash.set(keyBytes, 2);
+  hash.set(idBytes, 2 + keyBytes.length);
+
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    const input = new Uint8Array(hash.length + keyBytes.length);
+    input.set(hash);
+    input.set(keyBytes, hash.length);
+    hash = new Uint8Array(await webcrypto.subtle.digest("SHA-512", input));
+  }
+
+  let digits = "";
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let b = 0; b < 5; b++) {
+      value = value * 256 + hash[chunk * 5 + b];
+    }
+    digits += (value % 100000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+/**
+ * 60-digit number shared by both sides of a conversation. Each half is derived
+ * from one participant's keys as returned by `fetchIdentityKeys`, and the
+ * halves are ordered by user id so both devices display the same value.
+ */
+export async function computeSafetyNumber(
+  myId: string,
+  myKeys: string[],
+  contactId: string,
+  contactKeys: string[]
+): Promise<string> {
+  const [mine, theirs] = await Promise.all([
+    fingerprintDigits(myId, myKeys),
+    fingerprintDigits(contactId, contactKeys),
+  ]);
+  return myId < contactId ? mine + theirs : theirs + mine;
+}
+
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  return safetyNumber.match(/.{1,5}/g) || [];
+}
+
+function storageKey(myId: string, contactId: string) {
+  return `contact_key_${myId}_${contactId}`;
+}
+
+function readRemembered(myId: string, contactId: string): RememberedKey | null {
+  try {
+    const raw = localStorage.getItem(storageKey(myId, contactId));
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function remember(myId: string, contactId: string, safetyNumber: string, verified: boolean) {
+  const entry: RememberedKey = { safetyNumber, verified, version: FINGERPRINT_VERSION };
+  localStorage.setItem(storageKey(myId, contactId), JSON.stringify(entry));
+}
+
+/**
+ * Compares the current safety number with the one remembered for this contact.
+ * The first number seen is trusted on first use; any later change, including a
+ * device being added or revoked, is reported until the user verifies the new
+ * number again. A number remembered under an older fingerprint version is
+ * replaced without a warning but has to be verified again.
+ */
+export function checkKeyTrust(myId: string, contactId: string, safetyNumber: string): KeyTrustStatus {
+  const remembered = readRemembered(myId, contactId);
+  if (!remembered || (remembered.version ?? 0) !== FINGERPRINT_VERSION) {
+    remember(myId, contactId, safetyNumber, false);
+    return "unverified";
+  }
+  if (remembered.safetyNumber !== safetyNumber) return "changed";
+  return remembered.verified ? "verified" : "unverified";
+}
+
+export function markVerified(myId: string, contactId: string, safetyNumber: string) {
+  remember(myId, contactId, safetyNumber, true);
+}
+
+export function clearVerification(myId: string, contactId: string, safetyNumber: string) {
+  remember(myId, contactId, safetyNumber, false);
+}
@@ -0,0 +1,108 @@
+import { supabase } from "@/lib/supabase";
+
+/** How far ahead a message has to be scheduled; anything sooner might as well be sent now. */
+export const SCHEDULE_MIN_LEAD_MINUTES = 1;
+
+/**
+ * A message waiting to be sent. `encrypted_content` is the finished, signed
+ * envelope; the release job copies it into `messages` untouched, under the same id.
+ */
+export interface ScheduledMessageRow {
+  id: string;
+  sender_id: string;
+  receiver_id: string;
+  encrypted_content: string;
+  media_type: string;
+  auto_delete_mode: string;
+  send_at: string;
+  created_at: string;
+}
+
+export class ScheduledMessageReleasedError extends Error {
+  constructor() {
+    super("This message has already been sent");
+    this.name = "ScheduledMessageReleasedError";
+  }
+}
+
+export function isValidSendTime(sendAt: Date): boolean {
+  return sendAt.getTime() - Date.now() >= SCHEDULE_MIN_LEAD_MINUTES * 60 * 1000;
+}
+
+/** The sender's pending messages to one contact, soonest first. */
+export async function fetchScheduledMessages(senderId: string, receiverId: string): Promise<ScheduledMessageRow[]> {
+  const { data, error } = await supabase
+    .from("scheduled_messages")
+    .select("*")
+    .eq("sender_id", senderId)
+    .eq("receiver_id", receiverId)
+    .order("send_at", { ascending: true });
+  if (error) throw error;
+  return data as ScheduledMessageRow[] || [];
+}
+
+/** Calls the scheduling routes as the signed-in user, who is the only sender the server will accept. */
+async function scheduledRequest(path: string, method: string, body?: unknown) {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${session?.access_token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const result = await response.json().catch(() => ({}));
+  if (response.status === 409) throw new ScheduledMessageReleasedError();
+  if (!response.ok) throw new Error(result.error || "Scheduled message request failed");
+  return result;
+}
+
+export async function scheduleMessage(message: {
+  id: string;
+  receiver_id: string;
+  encrypted_content: string;
+  auto_delete_mode: string;
+  send_at: string;
+}): Promise<ScheduledMessageRow> {
+  const result = await scheduledRequest("/api/messages/scheduled", "POST", {
+    id: message.id,
+    receiverId: message.receiver_id,
+    encryptedContent: message.encrypted_content,
+    autoDeleteMode: message.auto_delete_mode,
+    sendAt: message.send_at
+  });
+  return result.scheduled as ScheduledMessageRow;
+}
+
+/**
+ * Replaces the envelope and send time of a message that is still pending. Rows
+ * that are already due belong to the release job and are left alone.
+ */
+export async function updateScheduledMessage(
+  id: string,
+  changes: Pick<ScheduledMessageRow, "encrypted_content" | "send_at">
+): Promise<ScheduledMessageRow> {
+  const result = await scheduledRequest("/api/messages/scheduled", "PATCH", {
+    id,
+    encryptedContent: changes.encrypted_content,
+    sendAt: changes.send_at
+  });
+  return result.scheduled as ScheduledMessageRow;
+}
+
+export async function cancelScheduledMessage(id: string) {
+  await scheduledRequest("/api/messages/scheduled", "DELETE", { id });
+}
+
+/**
+ * Sends the signed-in user's own messages that have come due. The cron job
+ * covers everyone else's; this keeps a sender's messages on time while they
+ * have the app open, and is the only release on deployments without cron.
+ */
+export async function releaseDueMessages() {
+  await scheduledRequest("/api/messages/scheduled/release", "POST");
+}
+
+/** `date` in the local-time format a datetime-local input expects. */
+export function toDateTimeLocal(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+}
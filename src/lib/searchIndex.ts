@@ -0,0 +1,96 @@
+import { encryptWithAES, decryptWithAES } from "@/lib/crypto";
+import { sealedDatabase, requestResult, transactionDone } from "@/lib/idb";
+
+const STORE = "entries";
+
+export interface SearchEntry {
+  id: string;
+  contact_id: string;
+  sender_id: string;
+  created_at: string;
+  text: string;
+}
+
+/** What sits in IndexedDB: routing fields in the clear, sender and text sealed with the index key. */
+interface StoredEntry {
+  id: string;
+  contact_id: string;
+  created_at: string;
+  iv: string;
+  content: string;
+}
+
+/**
+ * Full-text index over messages this device has decrypted. Entries are
+ * encrypted at rest and only decrypted into memory when the user searches.
+ */
+export class SearchIndex {
+  private entries: Map<string, SearchEntry> | null = null;
+
+  constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  async add(entries: SearchEntry[]) {
+    if (entries.length === 0) return;
+    const stored = await Promise.all(entries.map(async (entry): Promise<StoredEntry> => {
+      const { content, iv } = await encryptWithAES(JSON.stringify({ sender_id: entry.sender_id, text: entry.text }), this.key);
+      return { id: entry.id, contact_id: entry.contact_id, created_at: entry.created_at, iv, content };
+    }));
+
+    const tx = this.db.transaction(STORE, "readwrite");
+    stored.forEach(row => tx.objectStore(STORE).put(row));
+    await transactionDone(tx);
+    entries.forEach(entry => this.entries?.set(entry.id, entry));
+  }
+
+  async remove(ids: string[]) {
+    if (ids.length === 0) return;
+    const tx = this.db.transaction(STORE, "readwrite");
+    ids.forEach(id => tx.objectStore(STORE).delete(id));
+    await transactionDone(tx);
+    ids.forEach(id => this.entries?.delete(id));
+  }
+
+  async removeConversation(contactId: string) {
+    const rows = await requestResult(this.db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredEntry[]>);
+    await this.remove(rows.filter(row => row.contact_id === contactId).map(row => row.id));
+  }
+
+  /** Newest first; every word of the query has to appear in the message. */
+  async search(query: string, limit = 50): Promise<SearchEntry[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    const entries = await this.load();
+    return [...entries.values()]
+      .filter(entry => {
+        const text = entry.text.toLowerCase();
+        return terms.every(term => text.includes(term));
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, limit);
+  }
+
+  private async load(): Promise<Map<string, SearchEntry>> {
+    if (this.entries) return this.entries;
+    const rows = await requestResult(this.db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<StoredEntry[]>);
+    const entries = new Map<string, SearchEntry>();
+    const unreadable: string[] = [];
+
+    await Promise.all(rows.map(async row => {
+      try {
+        const { sender_id, text } = JSON.parse(await decryptWithAES(row.content, row.iv, this.key));
+        entries.set(row.id, { id: row.id, contact_id: row.contact_id, created_at: row.created_at, sender_id, text });
+      } catch {
+        unreadable.push(row.id);
+      }
+    }));
+
+    this.entries = entries;
+    await this.remove(unreadable);
+    return entries;
+  }
+}
+
+export const openSearchIndex = sealedDatabase(
+  { name: "chatify-search", stores: [STORE] },
+  (db, key) => new SearchIndex(db, key)
+);
@@ -0,0 +1,44 @@
+import { encryptWithAES, decryptWithAES } from "@/lib/crypto";
+import { sealedDatabase, requestResult, transactionDone } from "@/lib/idb";
+
+const STORE = "secrets";
+
+interface StoredSecret {
+  id: string;
+  iv: string;
+  content: string;
+}
+
+/**
+ * A device's long-lived secrets: its ratchet identity, sessions and prekeys and
+ * its signing key. Values are JSON, sealed with the device key like every other
+ * on-device store, so none of them sit in plaintext storage.
+ */
+export class SecretStore {
+  constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  /** A value that fails to open is reported and treated as absent, but left in place. */
+  async get<T>(id: string): Promise<T | null> {
+    const row = await requestResult(this.db.transaction(STORE).objectStore(STORE).get(id) as IDBRequest<StoredSecret | undefined>);
+    if (!row) return null;
+    try {
+      return JSON.parse(await decryptWithAES(row.content, row.iv, this.key));
+    } catch (e) {
+      console.error(`Secret ${id} could not be opened:`, e);
+      return null;
+    }
+  }
+
+  async put(id: string, value: unknown) {
+    const { content, iv } = await encryptWithAES(JSON.stringify(value), this.key);
+    const tx = this.db.transaction(STORE, "readwrite");
+    tx.objectStore(STORE).put({ id, iv, content } satisfies StoredSecret);
+    await transactionDone(tx);
+  }
+}
+
+/** Opened per device id, since a browser holds one device for each account signed in on it. */
+export const openSecrets = sealedDatabase(
+  { name: "chatify-secrets", stores: [STORE] },
+  (db, key) => new SecretStore(db, key)
+);
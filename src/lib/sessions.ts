@@ -0,0 +1,280 @@
+import { supabase } from "@/lib/supabase";
+import { base64ToBuffer, bufferToBase64, importAESKey, exportKey, encryptAESKeyForUser } from "@/lib/crypto";
+import {
+  generateDHKeyPair, initiateSession, acceptSession, ratchetEncrypt, ratchetDecrypt,
+  type SerializedKeyPair, type SessionState, type RatchetHeader, type PrekeyBundle
+} from "@/lib/ratchet";
+import type { DeviceKey } from "@/lib/devices";
+import { signPayload, verifyPayload } from "@/lib/signing";
+import { openSecrets } from "@/lib/secrets";
+
+const ONE_TIME_PREKEY_TARGET = 20;
+const SIGNED_PREKEY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SIGNED_PREKEYS_KEPT = 3;
+
+interface PrekeyStore {
+  currentSignedId: string;
+  signed: Record<string, SerializedKeyPair & { created_at: number }>;
+  oneTime: Record<string, SerializedKeyPair>;
+}
+
+interface SessionRecord {
+  active: string | null;
+  states: Record<string, SessionState>;
+}
+
+export interface SessionEntry {
+  header: RatchetHeader;
+  iv: string;
+  key: string;
+}
+
+export interface SealedMessageKey {
+  sessions: Record<string, SessionEntry>;
+  device_keys: Record<string, string>;
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(name) || Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  locks.set(name, next);
+  return next;
+}
+
+const PREKEYS = "ratchet_prekeys";
+
+async function load<T>(deviceId: string, id: string): Promise<T | null> {
+  return await (await openSecrets(deviceId)).get<T>(id);
+}
+
+async function save(deviceId: string, id: string, value: unknown) {
+  await (await openSecrets(deviceId)).put(id, value);
+}
+
+function loadIdentity(deviceId: string): Promise<SerializedKeyPair> {
+  // Serialized so two first uses can't each generate and publish a different identity.
+  return withLock(`identity:${deviceId}`, async () => {
+    let identity = await load<SerializedKeyPair>(deviceId, "ratchet_identity");
+    if (!identity) {
+      identity = await generateDHKeyPair();
+      await save(deviceId, "ratchet_identity", identity);
+    }
+    return identity;
+  });
+}
+
+async function loadSessions(deviceId: string, remoteDeviceId: string): Promise<SessionRecord> {
+  return await load<SessionRecord>(deviceId, `ratchet_session_${remoteDeviceId}`) || { active: null, states: {} };
+}
+
+async function saveSessions(deviceId: string, remoteDeviceId: string, record: SessionRecord) {
+  await save(deviceId, `ratchet_session_${remoteDeviceId}`, record);
+}
+
+
+/**
+ * What a device signs to vouch for its prekeys: the identity key and the
+ * current signed prekey, bound to the device they were published for.
+ */
+function prekeySigningPayload(deviceId: string, identityKey: string, signedPrekeyId: string, signedPrekey: string) {
+  return `prekey|${deviceId}|${identityKey}|${signedPrekeyId}|${signedPrekey}`;
+}
+
+/**
+ * Makes sure this device has an identity key, a fresh signed prekey and a full
+ * pool of one-time prekeys published, so others can open sessions with it
+ * while it is offline.
+ */
+export async function publishPrekeys(deviceId: string) {
+  const identity = await loadIdentity(deviceId);
+  // Serialized with the removal of used one-time prekeys, which writes the same record.
+  await withLock(`prekeys:${deviceId}`, async () => {
+    let store = await load<PrekeyStore>(deviceId, PREKEYS);
+
+    const current = store?.signed[store.currentSignedId];
+    if (!store || !current || Date.now() - current.created_at > SIGNED_PREKEY_MAX_AGE_MS) {
+      const signedId = crypto.randomUUID();
+      const signed = { ...(await generateDHKeyPair()), created_at: Date.now() };
+      // Older signed prekeys stay around briefly for messages already in flight.
+      const kept = Object.entries(store?.signed || {})
+        .sort(([, a], [, b]) => b.created_at - a.created_at)
+        .slice(0, SIGNED_PREKEYS_KEPT - 1);
+      store = {
+        currentSignedId: signedId,
+        signed: { ...Object.fromEntries(kept), [signedId]: signed },
+        oneTime: store?.oneTime || {},
+      };
+      await save(deviceId, PREKEYS, store);
+    }
+
+    const signedPrekey = store.signed[store.currentSignedId].pub;
+    const signature = await signPayload(deviceId, prekeySigningPayload(deviceId, identity.pub, store.currentSignedId, signedPrekey));
+    const { error } = await supabase
+      .from("devices")
+      .update({
+        identity_key: identity.pub,
+        signed_prekey: signedPrekey,
+        signed_prekey_id: store.currentSignedId,
+        signed_prekey_signature: signature,
+      })
+      .eq("id", deviceId);
+    if (error) throw error;
+
+    const { data: published } = await supabase
+      .from("one_time_prekeys")
+      .select("id")
+      .eq("device_id", deviceId);
+
+    const missing = ONE_TIME_PREKEY_TARGET - (published?.length || 0);
+    if (missing <= 0) return;
+
+    const fresh: { id: string; device_id: string; public_key: string }[] = [];
+    for (let i = 0; i < missing; i++) {
+      const id = crypto.randomUUID();
+      const pair = await generateDHKeyPair();
+      store.oneTime[id] = pair;
+      fresh.push({ id, device_id: deviceId, public_key: pair.pub });
+    }
+    await save(deviceId, PREKEYS, store);
+    const { error: insertError } = await supabase.from("one_time_prekeys").insert(fresh);
+    if (insertError) throw insertError;
+  });
+}
+
+/**
+ * Fetches a device's prekeys to open a session with it. A bundle the device
+ * has not signed with its signing key is refused, since a swapped prekey would
+ * let whoever swapped it read the session.
+ */
+async function claimBundle(remoteDeviceId: string): Promise<PrekeyBundle | null> {
+  const { data: device } = await supabase
+    .from("devices")
+    .select("user_id, identity_key, signed_prekey, signed_prekey_id, signed_prekey_signature")
+    .eq("id", remoteDeviceId)
+    .maybeSingle();
+
+  if (!device?.identity_key || !device.signed_prekey || !device.signed_prekey_id) return null;
+
+  const payload = prekeySigningPayload(remoteDeviceId, device.identity_key, device.signed_prekey_id, device.signed_prekey);
+  const signed = !!device.signed_prekey_signature
+    && await verifyPayload(device.user_id, remoteDeviceId, payload, device.signed_prekey_signature, new Date().toISOString());
+  if (!signed) throw new Error("Prekey bundle signature is missing or invalid");
+
+  let oneTimePrekey: PrekeyBundle["one_time_prekey"] = null;
+  const { data: candidates } = await supabase
+    .from("one_time_prekeys")
+    .select("id, public_key")
+    .eq("device_id", remoteDeviceId)
+    .limit(1);
+
+  if (candidates?.[0]) {
+    // Only the caller whose delete actually removed the row gets to use it.
+    const { data: claimed } = await supabase
+      .from("one_time_prekeys")
+      .delete()
+      .eq("id", candidates[0].id)
+      .select("id");
+    if (claimed?.length) oneTimePrekey = candidates[0];
+  }
+
+  return {
+    identity_key: device.identity_key,
+    signed_prekey: device.signed_prekey,
+    signed_prekey_id: device.signed_prekey_id,
+    one_time_prekey: oneTimePrekey,
+  };
+}
+
+async function sealForDevice(deviceId: string, remoteDeviceId: string, rawKey: Uint8Array<ArrayBuffer>): Promise<SessionEntry | null> {
+  return withLock(`${deviceId}:${remoteDeviceId}`, async () => {
+    const record = await loadSessions(deviceId, remoteDeviceId);
+    let session = record.active ? record.states[record.active] : null;
+
+    if (!session?.sendChain) {
+      const bundle = await claimBundle(remoteDeviceId);
+      if (!bundle) return null;
+      session = await initiateSession(await loadIdentity(deviceId), bundle);
+      record.active = session.sid;
+    }
+
+    const { state, header, iv, ciphertext } = await ratchetEncrypt(session, rawKey);
+    record.states[state.sid] = state;
+    await saveSessions(deviceId, remoteDeviceId, record);
+    return { header, iv, key: ciphertext };
+  });
+}
+
+async function openFromDevice(deviceId: string, senderDeviceId: string, entry: SessionEntry): Promise<Uint8Array<ArrayBuffer>> {
+  return withLock(`${deviceId}:${senderDeviceId}`, async () => {
+    const record = await loadSessions(deviceId, senderDeviceId);
+    const { header } = entry;
+    let session = record.states[header.sid];
+    let usedOneTimePrekey: string | null = null;
+
+    if (!session) {
+      if (!header.prekey) throw new Error("No ratchet session for this message");
+
+      const store = await load<PrekeyStore>(deviceId, PREKEYS);
+      const signed = store?.signed[header.prekey.spk_id];
+      const oneTime = header.prekey.opk_id ? store?.oneTime[header.prekey.opk_id] : null;
+      if (!store || !signed) throw new Error("Signed prekey no longer available");
+      if (header.prekey.opk_id && !oneTime) throw new Error("One-time prekey already used");
+
+      session = await acceptSession(await loadIdentity(deviceId), signed, oneTime || null, header.prekey);
+      usedOneTimePrekey = header.prekey.opk_id ?? null;
+
+      // When both sides open a session at the same time, both converge on the lower id.
+      const active = record.active ? record.states[record.active] : null;
+      if (!active || !active.pendingPrekey || session.sid < active.sid) {
+        record.active = session.sid;
+      }
+    }
+
+    const { state, plaintext } = await ratchetDecrypt(session, header, entry.iv, entry.key);
+    record.states[state.sid] = state;
+    await saveSessions(deviceId, senderDeviceId, record);
+
+    if (usedOneTimePrekey) {
+      const opkId = usedOneTimePrekey;
+      await withLock(`prekeys:${deviceId}`, async () => {
+        const store = await load<PrekeyStore>(deviceId, PREKEYS);
+        if (!store?.oneTime[opkId]) return;
+        delete store.oneTime[opkId];
+        await save(deviceId, PREKEYS, store);
+      });
+    }
+    return plaintext;
+  });
+}
+
+/**
+ * Wraps a message key for each device. Devices that publish signed prekeys get
+ * a ratchet entry; older devices without a valid bundle fall back to RSA wrapping.
+ * The sending device itself gets neither; it keeps the key in its message key store.
+ */
+export async function sealMessageKey(deviceId: string, aesKey: CryptoKey, devices: DeviceKey[]): Promise<SealedMessageKey> {
+  const rawKey = base64ToBuffer(await exportKey(aesKey));
+  const sealed: SealedMessageKey = { sessions: {}, device_keys: {} };
+
+  await Promise.all(devices.filter(d => d.id !== deviceId).map(async (device) => {
+    let entry: SessionEntry | null = null;
+    try {
+      entry = await sealForDevice(deviceId, device.id, rawKey);
+    } catch (e) {
+      console.error(`Ratchet unavailable for device ${device.id}`, e);
+    }
+    if (entry) {
+      sealed.sessions[device.id] = entry;
+    } else {
+      sealed.device_keys[device.id] = await encryptAESKeyForUser(aesKey, device.key);
+    }
+  }));
+  return sealed;
+}
+
+export async function openMessageKey(deviceId: string, senderDeviceId: string, entry: SessionEntry): Promise<CryptoKey> {
+  const rawKey = await openFromDevice(deviceId, senderDeviceId, entry);
+  return await importAESKey(bufferToBase64(rawKey.buffer));
+}
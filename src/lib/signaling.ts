@@ -0,0 +1,142 @@
+import { z } from "zod";
+import {
+  generateAESKey, encryptWithAES, decryptWithAES, encryptAESKeyForUser,
+  decryptAESKeyWithUserPrivateKey, importPublicKey
+} from "@/lib/crypto";
+import { getDeviceId, fetchActiveDeviceKeys, type DeviceKey } from "@/lib/devices";
+import { signPayload, verifyPayload } from "@/lib/signing";
+
+export type SignalType = "offer" | "answer" | "candidate" | "end";
+
+/** Offers can sit unanswered while the callee decides, so allow a few minutes of ringing and clock skew. */
+const SIGNAL_MAX_AGE_MS = 5 * 60 * 1000;
+
+/** A call sends many signals in a burst, so the partner's devices are looked up once per window rather than per signal. */
+const DEVICE_KEYS_TTL_MS = 30 * 1000;
+
+/** The signal key is wrapped for the account key and for each active device, and all of it is signed. */
+const sealedSignalSchema = z.object({
+  v: z.literal(2),
+  key: z.string().min(1),
+  device_keys: z.record(z.string()),
+  iv: z.string().min(1),
+  content: z.string().min(1),
+  sent_at: z.string().min(1),
+  sender_device: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+type SealedSignal = z.infer<typeof sealedSignalSchema>;
+
+export interface SignalRoute {
+  senderId: string;
+  receiverId: string;
+  type: SignalType;
+}
+
+export class SignalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignalError";
+  }
+}
+
+function signingPayload(route: SignalRoute, signal: Omit<SealedSignal, "signature">) {
+  return [
+    route.senderId, route.receiverId, route.type, signal.v,
+    signal.sent_at, signal.key, signal.iv, signal.content,
+    JSON.stringify(signal.device_keys),
+  ].join("|");
+}
+
+const deviceKeys = new Map<string, { keys: Promise<DeviceKey[]>; fetchedAt: number }>();
+
+function recipientDeviceKeys(userId: string): Promise<DeviceKey[]> {
+  let cached = deviceKeys.get(userId);
+  if (!cached || Date.now() - cached.fetchedAt > DEVICE_KEYS_TTL_MS) {
+    cached = { keys: fetchActiveDeviceKeys([userId]), fetchedAt: Date.now() };
+    deviceKeys.set(userId, cached);
+  }
+  return cached.keys;
+}
+
+const recipientKeys = new Map<string, CryptoKey>();
+
+async function recipientKey(publicKeyBase64: string | null | undefined): Promise<CryptoKey> {
+  if (!publicKeyBase64) throw new SignalError("Partner has no encryption key");
+  let key = recipientKeys.get(publicKeyBase64);
+  if (!key) {
+    key = await importPublicKey(publicKeyBase64);
+    recipientKeys.set(publicKeyBase64, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypts a call signal for the partner and signs it with this device's key.
+ * SDP offers routinely exceed what RSA-OAEP can hold, so the payload is sealed
+ * with a one-off AES key and only that key is wrapped with RSA, for the
+ * partner's account key and each of their active devices, as messages are.
+ */
+export async function sealSignal(route: SignalRoute, data: unknown, partnerPublicKey: string | null | undefined): Promise<string> {
+  const rsaKey = await recipientKey(partnerPublicKey);
+  const aesKey = await generateAESKey();
+  const encrypted = await encryptWithAES(JSON.stringify(data), aesKey);
+  const senderDevice = getDeviceId(route.senderId);
+
+  const wrappedForDevices: Record<string, string> = {};
+  await Promise.all((await recipientDeviceKeys(route.receiverId)).map(async device => {
+    wrappedForDevices[device.id] = await encryptAESKeyForUser(aesKey, device.key);
+  }));
+
+  const unsigned = {
+    v: 2 as const,
+    key: await encryptAESKeyForUser(aesKey, rsaKey),
+    device_keys: wrappedForDevices,
+    iv: encrypted.iv,
+    content: encrypted.content,
+    sent_at: new Date().toISOString(),
+    sender_device: senderDevice,
+  };
+  const signature = await signPayload(senderDevice, signingPayload(route, unsigned));
+  return JSON.stringify({ ...unsigned, signature });
+}
+
+/**
+ * Opens a signal addressed to us. Anything unencrypted, unsigned, stale or
+ * signed by a device that does not belong to the claimed sender is refused.
+ */
+export async function openSignal<T = any>(route: SignalRoute, signalData: string, privateKey: CryptoKey): Promise<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(signalData);
+  } catch {
+    throw new SignalError("Signal is not valid JSON");
+  }
+
+  const result = sealedSignalSchema.safeParse(parsed);
+  if (!result.success) throw new SignalError("Refusing unencrypted or malformed signal");
+  const { signature, ...unsigned } = result.data;
+
+  const age = Date.now() - new Date(unsigned.sent_at).getTime();
+  if (!(age < SIGNAL_MAX_AGE_MS)) throw new SignalError("Signal is too old");
+
+  const verified = await verifyPayload(
+    route.senderId,
+    unsigned.sender_device,
+    signingPayload(route, unsigned),
+    signature,
+    unsigned.sent_at
+  );
+  if (!verified) throw new SignalError("Signal signature is invalid");
+
+  const deviceKey = unsigned.device_keys[getDeviceId(route.receiverId)];
+  for (const wrapped of [deviceKey, unsigned.key]) {
+    if (!wrapped) continue;
+    try {
+      const aesKey = await decryptAESKeyWithUserPrivateKey(wrapped, privateKey);
+      return JSON.parse(await decryptWithAES(unsigned.content, unsigned.iv, aesKey));
+    } catch {}
+  }
+  throw new SignalError("Signal could not be decrypted");
+}
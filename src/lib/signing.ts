@@ -0,0 +1,126 @@
+import { supabase } from "@/lib/supabase";
+import { base64ToBuffer, bufferToBase64, webcrypto } from "@/lib/crypto";
+import { openSecrets } from "@/lib/secrets";
+
+const SIGNING_PARAMS = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+interface StoredSigningKey {
+  pub: string;
+  priv: JsonWebKey;
+}
+
+interface SignerRecord {
+  user_id: string;
+  revoked_at: string | null;
+  key: CryptoKey;
+}
+
+interface CachedSigner {
+  record: Promise<SignerRecord | null>;
+  fetchedAt: number;
+}
+
+/** How long a device's signing record is trusted before it is read again, so a revocation reaches open sessions. */
+const SIGNER_TTL_MS = 60 * 1000;
+
+const signers = new Map<string, CachedSigner>();
+
+const signingKeys = new Map<string, Promise<StoredSigningKey>>();
+
+/** Kept in the sealed secret store; memoized so concurrent first uses agree on one key. */
+function loadSigningKey(deviceId: string): Promise<StoredSigningKey> {
+  let key = signingKeys.get(deviceId);
+  if (!key) {
+    key = (async () => {
+      const secrets = await openSecrets(deviceId);
+      const existing = await secrets.get<StoredSigningKey>("signing_key");
+      if (existing) return existing;
+
+      const pair = await webcrypto.subtle.generateKey(SIGNING_PARAMS, true, ["sign", "verify"]);
+      const stored = {
+        pub: bufferToBase64(await webcrypto.subtle.exportKey("raw", pair.publicKey)),
+        priv: await webcrypto.subtle.exportKey("jwk", pair.privateKey),
+      };
+      await secrets.put("signing_key", stored);
+      return stored;
+    })();
+    signingKeys.set(deviceId, key);
+    key.catch(() => signingKeys.delete(deviceId));
+  }
+  return key;
+}
+
+/**
+ * Publishes the public half of this device's signing key next to its RSA key,
+ * so anyone receiving its messages can check who actually sent them.
+ */
+export async function publishSigningKey(deviceId: string) {
+  const { pub } = await loadSigningKey(deviceId);
+  const { error } = await supabase
+    .from("devices")
+    .update({ signing_key: pub })
+    .eq("id", deviceId);
+  if (error) throw error;
+}
+
+export async function signPayload(deviceId: string, payload: string): Promise<string> {
+  const { priv } = await loadSigningKey(deviceId);
+  const key = await webcrypto.subtle.importKey("jwk", priv, SIGNING_PARAMS, false, ["sign"]);
+  const signature = await webcrypto.subtle.sign(SIGNATURE_PARAMS, key, new TextEncoder().encode(payload));
+  return bufferToBase64(signature);
+}
+
+async function fetchSigner(deviceId: string): Promise<SignerRecord | null> {
+  // Revoked devices are included so messages they sent before removal still verify.
+  const { data } = await supabase
+    .from("devices")
+    .select("user_id, revoked_at, signing_key")
+    .eq("id", deviceId)
+    .maybeSingle();
+
+  if (!data?.signing_key) return null;
+  const key = await webcrypto.subtle.importKey("raw", base64ToBuffer(data.signing_key), SIGNING_PARAMS, false, ["verify"]);
+  return { user_id: data.user_id, revoked_at: data.revoked_at, key };
+}
+
+/** Drops cached signing records, e.g. when a device is added, revoked or re-keyed. */
+export function forgetSigners() {
+  signers.clear();
+}
+
+/**
+ * Checks that `signature` was made by `deviceId`, that the device belongs to
+ * `senderId`, and that it had not been revoked when the message was sent.
+ */
+export async function verifyPayload(
+  senderId: string,
+  deviceId: string,
+  payload: string,
+  signature: string,
+  sentAt: string
+): Promise<boolean> {
+  let signer = signers.get(deviceId);
+  if (!signer || Date.now() - signer.fetchedAt > SIGNER_TTL_MS) {
+    signer = { record: fetchSigner(deviceId).catch(() => null), fetchedAt: Date.now() };
+    signers.set(deviceId, signer);
+  }
+  const record = await signer.record;
+  if (!record) {
+    signers.delete(deviceId);
+    return false;
+  }
+  if (record.user_id !== senderId) return false;
+  if (record.revoked_at && new Date(sentAt) > new Date(record.revoked_at)) return false;
+
+  try {
+    return await webcrypto.subtle.verify(
+      SIGNATURE_PARAMS,
+      record.key,
+      base64ToBuffer(signature),
+      new TextEncoder().encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
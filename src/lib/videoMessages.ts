@@ -0,0 +1,45 @@
+export const VIDEO_MAX_BYTES = (Number(process.env.NEXT_PUBLIC_VIDEO_MAX_MB) || 50) * 1024 * 1024;
+
+const THUMBNAIL_MAX_EDGE = 320;
+
+export interface VideoPreview {
+  thumbnail: string | undefined;
+  duration: number | undefined;
+}
+
+/**
+ * Grabs a small JPEG frame and the duration from a local video file. The
+ * thumbnail rides in the encrypted message meta, so it is never uploaded in the clear.
+ */
+export function createVideoPreview(file: Blob): Promise<VideoPreview> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.preload = "metadata";
+    video.muted = true;
+    video.playsInline = true;
+
+    const finish = (preview: VideoPreview) => {
+      URL.revokeObjectURL(url);
+      video.removeAttribute("src");
+      video.load();
+      resolve(preview);
+    };
+
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : undefined;
+      video.onseeked = () => {
+        const scale = Math.min(1, THUMBNAIL_MAX_EDGE / Math.max(video.videoWidth, video.videoHeight, 1));
+        const canvas = document.createElement("canvas");
+        canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+        canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+        canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        finish({ thumbnail: canvas.toDataURL("image/jpeg", 0.6), duration });
+      };
+      video.currentTime = duration ? Math.min(1, duration / 2) : 0.1;
+    };
+    // A file the browser cannot decode still sends, just without a preview.
+    video.onerror = () => finish({ thumbnail: undefined, duration: undefined });
+    video.src = url;
+  });
+}
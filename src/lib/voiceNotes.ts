@@ -0,0 +1,43 @@
+export const VOICE_NOTE_MIN_SECONDS = 1;
+export const VOICE_NOTE_MAX_SECONDS = 300;
+export const VOICE_WAVEFORM_BARS = 48;
+export const PLAYBACK_RATES = [1, 1.5, 2] as const;
+
+const RECORDING_MIME_TYPES = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg;codecs=opus"];
+
+/** The first container the browser can record to; Safari only offers mp4. */
+export function pickRecordingMimeType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+/**
+ * Peak levels of the recording, normalised to 0..1. They travel in the
+ * encrypted message meta so the waveform draws before the audio is fetched.
+ */
+export async function computeWaveform(blob: Blob, bars = VOICE_WAVEFORM_BARS): Promise<number[]> {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = buffer.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+    const peaks: number[] = [];
+    for (let i = 0; i < bars; i++) {
+      let peak = 0;
+      const end = Math.min(samples.length, (i + 1) * bucketSize);
+      for (let j = i * bucketSize; j < end; j++) {
+        peak = Math.max(peak, Math.abs(samples[j]));
+      }
+      peaks.push(peak);
+    }
+    const loudest = Math.max(...peaks, 0.01);
+    return peaks.map(p => Math.round((p / loudest) * 100) / 100);
+  } finally {
+    context.close();
+  }
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}